@@ -0,0 +1,63 @@
+import { ACHIEVEMENTS } from './achievements';
+import { useStrings } from './i18n';
+import { useProfileStore } from './profile';
+
+// Every achievement with its progress or unlock date, opened from the start screen
+export function AchievementsPanel({ onClose }: { onClose: () => void }) {
+    const records = useProfileStore((s) => s.profile.achievements);
+    const t = useStrings();
+    const unlocked = ACHIEVEMENTS.filter((a) => records[a.id]?.unlockedAt).length;
+
+    return (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80 pointer-events-auto z-10">
+            <div className="pixel-box p-6 text-center max-w-xs w-full mx-4 max-h-full overflow-y-auto">
+                <h2 className="text-lg text-[#73eff7] pixel-text mb-2">
+                    {t.achievements}
+                </h2>
+                <div className="text-[8px] text-[#f4b41b] mb-4">
+                    {unlocked}/{ACHIEVEMENTS.length}
+                </div>
+
+                {ACHIEVEMENTS.map((a) => {
+                    const record = records[a.id];
+                    const progress = Math.min(a.goal, Math.floor(record?.progress ?? 0));
+                    return (
+                        <div
+                            key={a.id}
+                            className="flex items-center gap-3 mb-3 text-left"
+                            style={{ opacity: record?.unlockedAt ? 1 : 0.6 }}
+                        >
+                            <span className="text-xl" style={{ filter: record?.unlockedAt ? 'none' : 'grayscale(1)' }}>
+                                {a.icon}
+                            </span>
+                            <div className="flex-1">
+                                <div className="text-[8px] text-[#f4f4f4]">{t[a.name]}</div>
+                                <div className="text-[8px] text-[#f4f4f4] opacity-70 mt-1">{t[a.description]}</div>
+                                {record?.unlockedAt ? (
+                                    <div className="text-[8px] text-[#73eff7] mt-1">
+                                        ✔ {t.unlockedOn} {record.unlockedAt.slice(0, 10)}
+                                    </div>
+                                ) : (
+                                    <div className="flex items-center gap-2 mt-1">
+                                        <div className="flex-1 h-[6px] bg-[#1a1c2c]">
+                                            <div className="h-full bg-[#f4b41b]" style={{ width: `${(progress / a.goal) * 100}%` }} />
+                                        </div>
+                                        <span className="text-[8px] text-[#f4b41b]">{progress}/{a.goal}</span>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+
+                <button
+                    onClick={onClose}
+                    className="pixel-btn pixel-btn-success w-full text-[8px] mt-4"
+                    style={{ padding: '8px 4px' }}
+                >
+                    {t.close}
+                </button>
+            </div>
+        </div>
+    );
+}
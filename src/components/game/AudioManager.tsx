@@ -1,5 +1,6 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useGameStore } from './GameManager';
+import { Settings, useSettingsStore } from './settings';
 
 // CC0 8-bit sound effects from OpenGameArt SubspaceAudio pack
 // https://opengameart.org/content/512-sound-effects-8-bit-style
@@ -17,7 +18,11 @@ class AudioController {
     private muted = false;
     private ac: AudioContext | null = null;
     private bgGain: GainNode | null = null;
+    private sfxGain: GainNode | null = null;
+    private musicVolume = 1;
+    private sfxVolume = 1;
     private beatTimer: number | null = null;
+    private beat = 0;
 
     async init() {
         if (this.initialized) return;
@@ -25,7 +30,7 @@ class AudioController {
         // Load retro 8-bit sound effects
         Object.entries(SOUNDS).forEach(([name, url]) => {
             const audio = new Audio(url);
-            audio.volume = 0.4;
+            audio.volume = 0.4 * this.sfxVolume;
             audio.preload = 'auto';
             this.sounds.set(name, audio);
         });
@@ -34,15 +39,18 @@ class AudioController {
         try {
             this.ac = new (window.AudioContext || (window as any).webkitAudioContext)();
             this.bgGain = this.ac.createGain();
-            this.bgGain.gain.value = 0.12;
+            this.bgGain.gain.value = 0.12 * this.musicVolume;
             this.bgGain.connect(this.ac.destination);
+            this.sfxGain = this.ac.createGain();
+            this.sfxGain.gain.value = this.sfxVolume;
+            this.sfxGain.connect(this.ac.destination);
         } catch { }
 
         this.initialized = true;
     }
 
     // Play 8-bit SFX with procedural fallback
-    play(name: 'jump' | 'collect' | 'crash' | 'gameOver') {
+    play(name: 'jump' | 'slide' | 'collect' | 'nearMiss' | 'shatter' | 'crash' | 'gameOver') {
         if (this.muted) return;
 
         // Try external audio first
@@ -60,7 +68,7 @@ class AudioController {
     }
 
     // Procedural SFX fallback
-    private playProceduralSFX(name: 'jump' | 'collect' | 'crash' | 'gameOver') {
+    private playProceduralSFX(name: 'jump' | 'slide' | 'collect' | 'nearMiss' | 'shatter' | 'crash' | 'gameOver') {
         if (!this.ac) return;
         const now = this.ac.currentTime;
         if (name === 'jump') {
@@ -70,8 +78,18 @@ class AudioController {
             osc.frequency.exponentialRampToValueAtTime(1200, now + 0.08);
             g.gain.setValueAtTime(0.2, now);
             g.gain.exponentialRampToValueAtTime(0.001, now + 0.12);
-            osc.connect(g); g.connect(this.ac.destination);
+            osc.connect(g); g.connect(this.sfxGain ?? this.ac.destination);
             osc.start(now); osc.stop(now + 0.12);
+        } else if (name === 'slide') {
+            // Procedural only: a short downward swoosh
+            const osc = this.ac.createOscillator();
+            const g = this.ac.createGain();
+            osc.type = 'sawtooth'; osc.frequency.setValueAtTime(500, now);
+            osc.frequency.exponentialRampToValueAtTime(150, now + 0.15);
+            g.gain.setValueAtTime(0.12, now);
+            g.gain.exponentialRampToValueAtTime(0.001, now + 0.18);
+            osc.connect(g); g.connect(this.sfxGain ?? this.ac.destination);
+            osc.start(now); osc.stop(now + 0.18);
         } else if (name === 'collect') {
             const osc = this.ac.createOscillator();
             const g = this.ac.createGain();
@@ -79,8 +97,47 @@ class AudioController {
             osc.frequency.exponentialRampToValueAtTime(1600, now + 0.05);
             g.gain.setValueAtTime(0.25, now);
             g.gain.exponentialRampToValueAtTime(0.001, now + 0.10);
-            osc.connect(g); g.connect(this.ac.destination);
+            osc.connect(g); g.connect(this.sfxGain ?? this.ac.destination);
             osc.start(now); osc.stop(now + 0.10);
+        } else if (name === 'nearMiss') {
+            // Procedural only: a quick whoosh past, then a rising two-note chime
+            const osc = this.ac.createOscillator();
+            const g = this.ac.createGain();
+            osc.type = 'sawtooth'; osc.frequency.setValueAtTime(1400, now);
+            osc.frequency.exponentialRampToValueAtTime(300, now + 0.12);
+            g.gain.setValueAtTime(0.1, now);
+            g.gain.exponentialRampToValueAtTime(0.001, now + 0.14);
+            osc.connect(g); g.connect(this.sfxGain ?? this.ac.destination);
+            osc.start(now); osc.stop(now + 0.14);
+            [880, 1320].forEach((freq, i) => {
+                const start = now + 0.1 + i * 0.08;
+                const chime = this.ac!.createOscillator();
+                const cg = this.ac!.createGain();
+                chime.type = 'square'; chime.frequency.setValueAtTime(freq, start);
+                cg.gain.setValueAtTime(0.12, start);
+                cg.gain.exponentialRampToValueAtTime(0.001, start + 0.1);
+                chime.connect(cg); cg.connect(this.sfxGain ?? this.ac!.destination);
+                chime.start(start); chime.stop(start + 0.1);
+            });
+        } else if (name === 'shatter') {
+            // Procedural only: a bright burst of noise with a falling glassy ping
+            const len = this.ac.sampleRate * 0.25;
+            const buf = this.ac.createBuffer(1, len, this.ac.sampleRate);
+            const data = buf.getChannelData(0);
+            for (let i = 0; i < len; i++) data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / len, 3);
+            const src = this.ac.createBufferSource();
+            const f = this.ac.createBiquadFilter(); f.type = 'highpass'; f.frequency.value = 2500;
+            const g = this.ac.createGain(); g.gain.value = 0.3;
+            src.buffer = buf; src.connect(f); f.connect(g); g.connect(this.sfxGain ?? this.ac.destination);
+            src.start(now);
+            const osc = this.ac.createOscillator();
+            const og = this.ac.createGain();
+            osc.type = 'triangle'; osc.frequency.setValueAtTime(2400, now);
+            osc.frequency.exponentialRampToValueAtTime(600, now + 0.2);
+            og.gain.setValueAtTime(0.15, now);
+            og.gain.exponentialRampToValueAtTime(0.001, now + 0.22);
+            osc.connect(og); og.connect(this.sfxGain ?? this.ac.destination);
+            osc.start(now); osc.stop(now + 0.22);
         } else if (name === 'crash') {
             const len = this.ac.sampleRate * 0.2;
             const buf = this.ac.createBuffer(1, len, this.ac.sampleRate);
@@ -89,7 +146,7 @@ class AudioController {
             const src = this.ac.createBufferSource();
             const f = this.ac.createBiquadFilter(); f.type = 'lowpass'; f.frequency.value = 600;
             const g = this.ac.createGain(); g.gain.value = 0.3;
-            src.buffer = buf; src.connect(f); f.connect(g); g.connect(this.ac.destination);
+            src.buffer = buf; src.connect(f); f.connect(g); g.connect(this.sfxGain ?? this.ac.destination);
             src.start(now);
         } else if (name === 'gameOver') {
             const osc = this.ac.createOscillator();
@@ -99,7 +156,7 @@ class AudioController {
             osc.frequency.exponentialRampToValueAtTime(300, now + 0.5);
             g.gain.setValueAtTime(0.3, now);
             g.gain.exponentialRampToValueAtTime(0.001, now + 0.6);
-            osc.connect(g); g.connect(this.ac.destination);
+            osc.connect(g); g.connect(this.sfxGain ?? this.ac.destination);
             osc.start(now); osc.stop(now + 0.6);
         }
     }
@@ -107,9 +164,72 @@ class AudioController {
     startMusic() {
         if (this.muted) return;
         // Always procedural for reliability
+        this.beat = 0;
+        this.startProceduralBGM();
+    }
+
+    // Freeze the BGM and any sound still ringing out; resumeMusic picks up on the same beat
+    pauseMusic() {
+        if (this.beatTimer) {
+            clearInterval(this.beatTimer);
+            this.beatTimer = null;
+        }
+        this.ac?.suspend().catch(() => { });
+    }
+
+    resumeMusic() {
+        this.ac?.resume().catch(() => { });
+        if (this.muted) return;
         this.startProceduralBGM();
     }
 
+    // Simple procedural 8-bit BGM; continues from the current beat so pausing keeps its place
+    private startProceduralBGM() {
+        if (!this.ac || !this.bgGain || this.beatTimer) return;
+        const beatMs = 430; // ~140 BPM
+        this.beatTimer = window.setInterval(() => {
+            if (!this.ac || !this.bgGain || this.muted) return;
+            const now = this.ac.currentTime;
+
+            // Kick on beats 0,4,8,12
+            if (this.beat % 4 === 0) {
+                const osc = this.ac.createOscillator();
+                const g = this.ac.createGain();
+                osc.type = 'sine';
+                osc.frequency.setValueAtTime(140, now);
+                osc.frequency.exponentialRampToValueAtTime(40, now + 0.12);
+                g.gain.setValueAtTime(0.25, now);
+                g.gain.exponentialRampToValueAtTime(0.001, now + 0.15);
+                osc.connect(g); g.connect(this.bgGain);
+                osc.start(now); osc.stop(now + 0.15);
+            }
+
+            // Hi-hat every beat
+            {
+                const len = this.ac.sampleRate * 0.04;
+                const buf = this.ac.createBuffer(1, len, this.ac.sampleRate);
+                const data = buf.getChannelData(0);
+                for (let i = 0; i < len; i++) data[i] = (Math.random() * 2 - 1) * (1 - i / len);
+                const src = this.ac.createBufferSource();
+                const g = this.ac.createGain();
+                src.buffer = buf; g.gain.value = 0.08; src.connect(g); g.connect(this.bgGain);
+                src.start();
+            }
+
+            // Bassline pentatonic
+            const bassNotes = [130.81, 146.83, 164.81, 196.0, 220.0];
+            const pattern = [0, 0, 2, 2, 3, 3, 4, 2, 0, 0, 2, 2, 3, 4, 3, 2];
+            const freq = bassNotes[pattern[this.beat % pattern.length]];
+            const osc = this.ac.createOscillator();
+            const g = this.ac.createGain();
+            osc.type = 'square'; osc.frequency.value = freq; g.gain.value = 0.12;
+            osc.connect(g); g.connect(this.bgGain);
+            osc.start(now); osc.stop(now + 0.2);
+
+            this.beat++;
+        }, beatMs);
+    }
+
     stopMusic() {
         if (this.bgMusic) {
             this.bgMusic.pause();
@@ -119,14 +239,24 @@ class AudioController {
             clearInterval(this.beatTimer);
             this.beatTimer = null;
         }
+        // Leaving a paused run must not keep the context suspended for the next one
+        if (this.ac?.state === 'suspended') {
+            this.ac.resume().catch(() => { });
+        }
     }
 
-    toggleMute() {
-        this.muted = !this.muted;
-        if (this.muted) {
-            this.stopMusic();
-        }
-        return this.muted;
+    // Volumes and mute come from the persisted settings; unmuting mid-run brings the BGM back
+    applySettings({ musicVolume, sfxVolume, muted }: Pick<Settings, 'musicVolume' | 'sfxVolume' | 'muted'>, playing: boolean) {
+        this.musicVolume = musicVolume;
+        this.sfxVolume = sfxVolume;
+        this.sounds.forEach((audio) => { audio.volume = 0.4 * sfxVolume; });
+        if (this.bgGain) this.bgGain.gain.value = 0.12 * musicVolume;
+        if (this.sfxGain) this.sfxGain.gain.value = sfxVolume;
+
+        const wasMuted = this.muted;
+        this.muted = muted;
+        if (muted && !wasMuted) this.stopMusic();
+        if (!muted && wasMuted && playing) this.resumeMusic();
     }
 
     isMuted() {
@@ -139,16 +269,27 @@ export const audioController = new AudioController();
 export function useAudio() {
     const { status } = useGameStore();
     const prevStatus = useRef(status);
+    const musicVolume = useSettingsStore((s) => s.musicVolume);
+    const sfxVolume = useSettingsStore((s) => s.sfxVolume);
+    const muted = useSettingsStore((s) => s.muted);
 
     useEffect(() => {
         audioController.init();
     }, []);
 
+    useEffect(() => {
+        audioController.applySettings({ musicVolume, sfxVolume, muted }, useGameStore.getState().status === 'playing');
+    }, [musicVolume, sfxVolume, muted]);
+
     useEffect(() => {
         // Status changed
         if (prevStatus.current !== status) {
-            if (status === 'playing') {
+            if (status === 'playing' && prevStatus.current === 'paused') {
+                audioController.resumeMusic();
+            } else if (status === 'playing') {
                 audioController.startMusic();
+            } else if (status === 'paused') {
+                audioController.pauseMusic();
             } else if (status === 'gameover') {
                 audioController.stopMusic();
                 audioController.play('gameOver');
@@ -172,56 +313,10 @@ export function useAudio() {
     }, []);
 
     const toggleMute = useCallback(() => {
-        return audioController.toggleMute();
+        const { muted: wasMuted, update } = useSettingsStore.getState();
+        update({ muted: !wasMuted });
+        return !wasMuted;
     }, []);
 
-    return { playJump, playCollect, playCrash, toggleMute, isMuted: audioController.isMuted() };
+    return { playJump, playCollect, playCrash, toggleMute, isMuted: muted };
 }
-
-// Simple procedural 8-bit BGM
-AudioController.prototype.startProceduralBGM = function () {
-    if (!this.ac || !this.bgGain || this.beatTimer) return;
-    const beatMs = 430; // ~140 BPM
-    let beat = 0;
-    this.beatTimer = window.setInterval(() => {
-        if (!this.ac || !this.bgGain || this.muted) return;
-        const now = this.ac.currentTime;
-
-        // Kick on beats 0,4,8,12
-        if (beat % 4 === 0) {
-            const osc = this.ac.createOscillator();
-            const g = this.ac.createGain();
-            osc.type = 'sine';
-            osc.frequency.setValueAtTime(140, now);
-            osc.frequency.exponentialRampToValueAtTime(40, now + 0.12);
-            g.gain.setValueAtTime(0.25, now);
-            g.gain.exponentialRampToValueAtTime(0.001, now + 0.15);
-            osc.connect(g); g.connect(this.bgGain);
-            osc.start(now); osc.stop(now + 0.15);
-        }
-
-        // Hi-hat every beat
-        {
-            const len = this.ac.sampleRate * 0.04;
-            const buf = this.ac.createBuffer(1, len, this.ac.sampleRate);
-            const data = buf.getChannelData(0);
-            for (let i = 0; i < len; i++) data[i] = (Math.random() * 2 - 1) * (1 - i / len);
-            const src = this.ac.createBufferSource();
-            const g = this.ac.createGain();
-            src.buffer = buf; g.gain.value = 0.08; src.connect(g); g.connect(this.bgGain);
-            src.start();
-        }
-
-        // Bassline pentatonic
-        const bassNotes = [130.81, 146.83, 164.81, 196.0, 220.0];
-        const pattern = [0, 0, 2, 2, 3, 3, 4, 2, 0, 0, 2, 2, 3, 4, 3, 2];
-        const freq = bassNotes[pattern[beat % pattern.length]];
-        const osc = this.ac.createOscillator();
-        const g = this.ac.createGain();
-        osc.type = 'square'; osc.frequency.value = freq; g.gain.value = 0.12;
-        osc.connect(g); g.connect(this.bgGain);
-        osc.start(now); osc.stop(now + 0.2);
-
-        beat++;
-    }, beatMs);
-};
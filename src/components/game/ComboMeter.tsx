@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+import { useGameStore } from './GameManager';
+import { COMBO_WINDOW } from './sim';
+
+// HUD multiplier with a bar draining until the combo lapses
+export function ComboMeter() {
+    const multiplier = useGameStore((s) => s.comboMultiplier);
+    const bar = useRef<HTMLDivElement>(null);
+
+    // The bar follows the simulation every frame without re-rendering React
+    useEffect(() => {
+        let frame = 0;
+        const update = () => {
+            const combo = useGameStore.getState().world?.combo;
+            if (bar.current) bar.current.style.width = `${combo ? (combo.remaining / COMBO_WINDOW) * 100 : 0}%`;
+            frame = requestAnimationFrame(update);
+        };
+        frame = requestAnimationFrame(update);
+        return () => cancelAnimationFrame(frame);
+    }, []);
+
+    return (
+        <div className="w-16" style={{ opacity: multiplier > 1 ? 1 : 0.5 }}>
+            <div className="text-[10px] pixel-text" style={{ color: multiplier > 1 ? '#f4b41b' : '#f4f4f4' }}>
+                ✖{multiplier}
+            </div>
+            <div className="h-[4px] mt-1 bg-black/50">
+                <div ref={bar} className="h-full bg-[#73eff7]" style={{ width: 0 }} />
+            </div>
+        </div>
+    );
+}
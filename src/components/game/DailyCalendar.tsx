@@ -0,0 +1,44 @@
+import { useMemo } from 'react';
+import { useStrings } from './i18n';
+import { dailyKey } from './sim';
+
+const DAYS_SHOWN = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Last four weeks of daily runs: attempted days are lit, today is outlined
+export function DailyCalendar({ scores, today }: { scores: Record<string, number>; today: string }) {
+    const days = useMemo(() => {
+        const end = Date.parse(`${today}T00:00:00Z`);
+        return Array.from({ length: DAYS_SHOWN }, (_, i) => dailyKey(new Date(end - (DAYS_SHOWN - 1 - i) * DAY_MS)));
+    }, [today]);
+    const t = useStrings();
+
+    const attempted = days.filter((day) => scores[day] !== undefined).length;
+
+    return (
+        <div className="mt-3">
+            <div className="grid grid-cols-7 gap-1">
+                {days.map((day) => {
+                    const score = scores[day];
+                    return (
+                        <div
+                            key={day}
+                            title={score !== undefined ? `${day}: ${score}` : day}
+                            className="h-6 flex items-center justify-center text-[6px]"
+                            style={{
+                                background: score !== undefined ? '#3e8948' : '#333c57',
+                                color: '#f4f4f4',
+                                outline: day === today ? '2px solid #f4b41b' : 'none',
+                            }}
+                        >
+                            {score !== undefined ? score : Number(day.slice(8))}
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="text-[8px] text-[#f4f4f4] mt-2">
+                {attempted}/{DAYS_SHOWN} {t.daysPlayed}
+            </div>
+        </div>
+    );
+}
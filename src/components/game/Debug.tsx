@@ -0,0 +1,149 @@
+import { useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { InstancedMesh, Matrix4, Mesh, Quaternion, Vector3 } from 'three';
+import { useGameStore } from './GameManager';
+import {
+    Aabb,
+    capabilitiesFor,
+    findSafePath,
+    HAZARDS,
+    hazardsFor,
+    interpolate,
+    LANES,
+    obstacleBox,
+    PathStep,
+    playerBox,
+    playerStartFor,
+} from './sim';
+
+// Re-solve a few times a second; the solver is cheap but not free
+const SOLVE_INTERVAL = 0.1;
+
+export function DebugOverlays() {
+    const debug = useGameStore((s) => s.debug);
+    return (
+        <>
+            {debug.safePath && <SafePathOverlay />}
+            {debug.hitboxes && <HitboxOverlay />}
+        </>
+    );
+}
+
+interface PathMarker {
+    x: number;
+    z: number;
+    color: string;
+    y: number;
+}
+
+const markerFor = (step: PathStep, speed: number): PathMarker => ({
+    x: LANES[step.lane],
+    z: -step.time * speed,
+    color: step.airborne ? '#f4b41b' : step.sliding ? '#73eff7' : '#3e8948',
+    y: step.airborne ? 1 : 0.05,
+});
+
+// Markers along the fairness solver's path: green running, yellow mid-jump, cyan sliding, red when none exists
+function SafePathOverlay() {
+    const [markers, setMarkers] = useState<PathMarker[] | null>([]);
+    const sinceSolve = useRef(SOLVE_INTERVAL);
+
+    useFrame((_, delta) => {
+        sinceSolve.current += delta;
+        if (sinceSolve.current < SOLVE_INTERVAL) return;
+        sinceSolve.current = 0;
+
+        const { world } = useGameStore.getState();
+        if (!world || world.status !== 'playing') {
+            setMarkers([]);
+            return;
+        }
+
+        const caps = capabilitiesFor(world);
+        const path = findSafePath(hazardsFor(world), playerStartFor(world), caps);
+        setMarkers(path && path.filter((_, i) => i % 2 === 0).map((step) => markerFor(step, caps.speed)));
+    });
+
+    if (markers === null) {
+        return (
+            <mesh position={[0, 0.05, -2]}>
+                <boxGeometry args={[5.4, 0.02, 0.3]} />
+                <meshBasicMaterial color="#e43b44" transparent opacity={0.6} />
+            </mesh>
+        );
+    }
+
+    return (
+        <>
+            {markers.map((marker, i) => (
+                <mesh key={i} position={[marker.x, marker.y, marker.z]}>
+                    <boxGeometry args={[0.25, 0.02, 0.25]} />
+                    <meshBasicMaterial color={marker.color} transparent opacity={0.7} />
+                </mesh>
+            ))}
+        </>
+    );
+}
+
+// Most hitboxes drawn at once per overlay mesh
+const HITBOX_POOL_SIZE = 128;
+
+// Scratch objects reused every frame
+const boxPosition = new Vector3();
+const boxSize = new Vector3();
+const boxMatrix = new Matrix4();
+const noRotation = new Quaternion();
+
+// Transform stretching a unit cube over a hitbox
+function boxTransform(box: Aabb): Matrix4 {
+    boxPosition.set((box.minX + box.maxX) / 2, (box.minY + box.maxY) / 2, (box.minZ + box.maxZ) / 2);
+    boxSize.set(box.maxX - box.minX, box.maxY - box.minY, box.maxZ - box.minZ);
+    return boxMatrix.compose(boxPosition, noRotation, boxSize);
+}
+
+// Wireframes of the boxes the collision pass uses, at their interpolated render positions
+function HitboxOverlay() {
+    const player = useRef<Mesh>(null);
+    const hazards = useRef<InstancedMesh>(null);
+    const pickups = useRef<InstancedMesh>(null);
+
+    useFrame(() => {
+        const { world, loop } = useGameStore.getState();
+        if (!player.current || !hazards.current || !pickups.current) return;
+
+        player.current.visible = !!world;
+        hazards.current.count = 0;
+        pickups.current.count = 0;
+        if (!world) return;
+
+        const { x, y, prevX, prevY } = world.player;
+        boxTransform(playerBox({ ...world.player, x: interpolate(prevX, x, loop.alpha), y: interpolate(prevY, y, loop.alpha) }))
+            .decompose(player.current.position, player.current.quaternion, player.current.scale);
+
+        world.obstacles.forEach((obstacle) => {
+            const mesh = HAZARDS[obstacle.type] ? hazards.current : pickups.current;
+            if (!mesh || mesh.count >= HITBOX_POOL_SIZE || (obstacle.collected && !HAZARDS[obstacle.type])) return;
+            const z = interpolate(obstacle.prevZ, obstacle.z, loop.alpha);
+            mesh.setMatrixAt(mesh.count++, boxTransform(obstacleBox({ ...obstacle, z })));
+        });
+        hazards.current.instanceMatrix.needsUpdate = true;
+        pickups.current.instanceMatrix.needsUpdate = true;
+    });
+
+    return (
+        <>
+            <mesh ref={player}>
+                <boxGeometry args={[1, 1, 1]} />
+                <meshBasicMaterial color="#73eff7" wireframe />
+            </mesh>
+            <instancedMesh ref={hazards} args={[undefined, undefined, HITBOX_POOL_SIZE]} frustumCulled={false}>
+                <boxGeometry args={[1, 1, 1]} />
+                <meshBasicMaterial color="#e43b44" wireframe />
+            </instancedMesh>
+            <instancedMesh ref={pickups} args={[undefined, undefined, HITBOX_POOL_SIZE]} frustumCulled={false}>
+                <boxGeometry args={[1, 1, 1]} />
+                <meshBasicMaterial color="#f4b41b" wireframe />
+            </instancedMesh>
+        </>
+    );
+}
@@ -1,24 +1,90 @@
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
-import { Suspense, useState, useEffect } from 'react';
+import { Suspense, useState, useEffect, useRef } from 'react';
 import { World } from './World';
-import { Player } from './Player';
+import { GhostPlayer, Player } from './Player';
 import { Obstacles } from './Obstacles';
 import { useGameStore } from './GameManager';
-import { useAudio } from './AudioManager';
+import { audioController, useAudio } from './AudioManager';
+import { downloadReplay, ReplayControls, ReplayImportButton } from './ReplayControls';
+import { DailyCalendar } from './DailyCalendar';
+import { DebugOverlays } from './Debug';
+import { Weather } from './Weather';
+import { Trail } from './Trail';
+import { Shatter } from './Shatter';
+import { AUTO_MIN_FPS, AUTO_SAMPLE_SECONDS, useQuality, useQualityStore } from './quality';
+import { useProfileStore } from './profile';
+import { useSettingsStore } from './settings';
+import { SettingsPanel } from './SettingsPanel';
+import { RunSummary, StatsPanel } from './Stats';
+import { AchievementsPanel } from './AchievementsPanel';
+import { MissionList } from './MissionList';
+import { Shop } from './Shop';
+import { ComboMeter } from './ComboMeter';
+import { PowerUpTimers } from './PowerUpTimers';
+import { Toasts } from './Toasts';
+import { StringKey, useStrings } from './i18n';
+import { dailyKey, dailyModifiers, describeModifiers, MAX_FRAME_DELTA, ModifierLabel } from './sim';
+
+// Menu text for each daily modifier
+const MODIFIER_LABELS: Record<ModifierLabel, StringKey> = {
+    noMagnets: 'modNoMagnets',
+    fastStart: 'modFastStart',
+    coinLaneLeft: 'modCoinLaneLeft',
+    coinLaneCenter: 'modCoinLaneCenter',
+    coinLaneRight: 'modCoinLaneRight',
+};
+
+// Feeds rendered frames into the fixed-timestep simulation and plays its sounds
+function SimulationDriver() {
+    const advance = useGameStore((s) => s.advance);
+
+    useFrame((state, delta) => {
+        advance(delta).forEach((event) => {
+            if (event.type === 'jump') audioController.play('jump');
+            else if (event.type === 'slide') audioController.play('slide');
+            else if (event.type === 'collect') audioController.play('collect');
+            else if (event.type === 'nearMiss') audioController.play('nearMiss');
+            else if (event.type === 'absorb') audioController.play('shatter');
+            else if (event.type === 'crash') audioController.play('crash');
+        });
+    });
+
+    return null;
+}
+
+// Auto quality: steps the preset down when a sample of play frames runs slow
+function QualityMonitor() {
+    const sample = useRef({ time: 0, frames: 0 });
+
+    useFrame((state, delta) => {
+        const { stepDown } = useQualityStore.getState();
+        // Only frames of an active run count; menus and hitches from a hidden tab would skew it
+        if (useSettingsStore.getState().quality !== 'auto' || useGameStore.getState().status !== 'playing' || delta > MAX_FRAME_DELTA) return;
+
+        sample.current.time += delta;
+        sample.current.frames += 1;
+        if (sample.current.time < AUTO_SAMPLE_SECONDS) return;
+        if (sample.current.frames / sample.current.time < AUTO_MIN_FPS) stepDown();
+        sample.current = { time: 0, frames: 0 };
+    });
+
+    return null;
+}
 
 // Dynamic camera FOV controller for speed-based zoom effect
 function CameraController() {
     const { camera } = useThree();
     const { speed } = useGameStore();
 
-    useFrame(() => {
+    useFrame((state, delta) => {
         // Calculate FOV based on speed (60° base, up to 80° at max speed)
         const speedRatio = Math.min((speed - 0.12) / (0.4 - 0.12), 1); // 0 to 1 range
         const targetFov = 60 + speedRatio * 20;
 
-        // Smooth lerp to avoid jarring changes
+        // Smooth lerp to avoid jarring changes (10% per 60 Hz frame, at any refresh rate)
         if ('fov' in camera) {
-            (camera as any).fov += (targetFov - (camera as any).fov) * 0.1;
+            const blend = 1 - Math.pow(0.9, delta * 60);
+            (camera as any).fov += (targetFov - (camera as any).fov) * blend;
             camera.updateProjectionMatrix();
         }
     });
@@ -27,45 +93,112 @@ function CameraController() {
 }
 
 export function Game() {
-    const { status, score, highScore, startGame, restartGame, screenShake, increaseSpeed } = useGameStore();
-    const { toggleMute } = useAudio();
-    const [isMuted, setIsMuted] = useState(false);
+    const {
+        status, mode, score, seed, world, lastReplay, bestReplay, ghost, ghostDelta, ghostMargin, screenShake, timeScale, dailyKey: runDay,
+        startGame, startDaily, restartGame, raceGhost, pauseGame, resumeGame, quitToMenu, watchReplay, toggleDebug,
+    } = useGameStore();
+    const { toggleMute, isMuted } = useAudio();
+    const controlScheme = useSettingsStore((s) => s.controlScheme);
+    const { endless: highScore, daily: dailyScores } = useProfileStore((s) => s.profile.highScores);
+    const t = useStrings();
+    const [showSettings, setShowSettings] = useState(false);
+    const [showStats, setShowStats] = useState(false);
+    const [showAchievements, setShowAchievements] = useState(false);
+    const [showShop, setShowShop] = useState(false);
+    const wallet = useProfileStore((s) => s.profile.currency);
     const [mounted, setMounted] = useState(false);
+    const [seedCopied, setSeedCopied] = useState(false);
+    const [showCalendar, setShowCalendar] = useState(false);
+    const quality = useQuality();
+    const today = dailyKey();
+    const todayModifiers = describeModifiers(dailyModifiers(today));
 
     const handleMuteToggle = () => {
-        const muted = toggleMute();
-        setIsMuted(muted);
+        toggleMute();
+    };
+
+    // Share the current run as a "try this seed" link
+    const handleCopySeed = () => {
+        const url = `${window.location.origin}${window.location.pathname}?seed=${seed}`;
+        navigator.clipboard?.writeText(url).then(() => setSeedCopied(true)).catch(() => { });
     };
 
+    useEffect(() => {
+        setSeedCopied(false);
+    }, [seed]);
+
+    // Menu panels close with the screen they were opened from
+    useEffect(() => {
+        setShowSettings(false);
+        setShowStats(false);
+        setShowAchievements(false);
+        setShowShop(false);
+    }, [status]);
+
+    // Escape / P toggles pause
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== 'Escape' && e.key !== 'p' && e.key !== 'P') return;
+            if (status === 'playing') pauseGame();
+            else if (status === 'paused') resumeGame();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [status, pauseGame, resumeGame]);
+
+    // Shift+D / Shift+H toggle the safe-path and hitbox debug overlays
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!e.shiftKey) return;
+            if (e.key === 'D') toggleDebug('safePath');
+            else if (e.key === 'H') toggleDebug('hitboxes');
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [toggleDebug]);
+
+    // Auto-pause when the tab is hidden or the window loses focus
+    useEffect(() => {
+        const handleVisibility = () => {
+            if (document.visibilityState === 'hidden') pauseGame();
+        };
+        document.addEventListener('visibilitychange', handleVisibility);
+        window.addEventListener('blur', pauseGame);
+        return () => {
+            document.removeEventListener('visibilitychange', handleVisibility);
+            window.removeEventListener('blur', pauseGame);
+        };
+    }, [pauseGame]);
+
     // Prevent SSR hydration mismatch by rendering Canvas only on client
     useEffect(() => {
         setMounted(true);
     }, []);
 
-    // Time-based speed-up: increase difficulty every 5 seconds while playing
-    useEffect(() => {
-        if (status !== 'playing') return;
-        const id = setInterval(() => {
-            increaseSpeed();
-        }, 5000);
-        return () => clearInterval(id);
-    }, [status, increaseSpeed]);
-
     return (
         <div className={`relative w-full h-full ${screenShake ? 'shake' : ''}`}>
             {/* 3D Canvas (client-only) */}
             {mounted ? (
                 <Canvas
-                    shadows
+                    shadows={quality.shadows}
+                    dpr={quality.dpr}
                     camera={{ position: [0, 3, 8], fov: 60 }}
                     style={{ background: 'linear-gradient(to bottom, #1a1c2c 0%, #333c57 50%, #3e8948 100%)' }}
                 >
+                    {/* Starting atmosphere; World re-tints the fog and background for the biome, time of day and weather */}
                     <fog attach="fog" args={['#1a1c2c', 10, 50]} />
+                    <SimulationDriver />
                     <CameraController />
+                    <QualityMonitor />
                     <Suspense fallback={null}>
                         <World />
                         <Player />
+                        <Trail />
+                        <Shatter />
+                        {ghost && <GhostPlayer />}
                         <Obstacles />
+                        <Weather />
+                        <DebugOverlays />
                     </Suspense>
                 </Canvas>
             ) : (
@@ -73,31 +206,118 @@ export function Game() {
             )}
 
             {/* Scanline overlay for retro effect */}
-            <div className="absolute inset-0 pointer-events-none scanlines opacity-30" />
+            {quality.effects && <div className="absolute inset-0 pointer-events-none scanlines opacity-30" />}
+
+            {/* Flash while a near miss plays in slow motion */}
+            {status === 'playing' && timeScale < 1 && (
+                <div className="absolute inset-0 pointer-events-none near-miss-flash flex items-center justify-center">
+                    <div className="text-lg text-[#73eff7] pixel-text">{t.nearMiss}</div>
+                </div>
+            )}
 
             {/* Game UI Overlay */}
             <div className="absolute inset-0 pointer-events-none flex flex-col">
 
-                {/* Top Bar - Score & Mute */}
+                {/* Top Bar - Score, Pause & Mute */}
                 {status === 'playing' && (
                     <div className="flex justify-between items-start p-4 pointer-events-auto">
-                        <div className="score-display pixel-text">
-                            🌶️ {score}
+                        <div className="flex flex-col gap-2 items-start">
+                            <div className="score-display pixel-text">
+                                🌶️ {score}
+                            </div>
+                            <ComboMeter />
+                            <PowerUpTimers />
+                            {mode === 'daily' && (
+                                <div className="text-[10px] text-[#f4b41b] pixel-text">
+                                    {t.daily}
+                                </div>
+                            )}
+                            {/* Live lead over the personal-best ghost */}
+                            {ghostDelta !== null && (
+                                <div
+                                    className="text-[10px] pixel-text"
+                                    style={{ color: ghostDelta >= 0 ? '#73eff7' : '#e43b44' }}
+                                >
+                                    👻 {ghostDelta >= 0 ? '+' : ''}{ghostDelta}
+                                </div>
+                            )}
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={pauseGame}
+                                className="pixel-btn p-2 text-lg"
+                                style={{ padding: '8px 12px' }}
+                            >
+                                ⏸
+                            </button>
+                            <button
+                                onClick={handleMuteToggle}
+                                className="pixel-btn p-2 text-lg"
+                                style={{ padding: '8px 12px' }}
+                            >
+                                {isMuted ? '🔇' : '🔊'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Replay playback */}
+                {status === 'replay' && <ReplayControls />}
+
+                {/* Pause Screen */}
+                {status === 'paused' && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-black/70 pointer-events-auto">
+                        <div className="pixel-box p-8 text-center max-w-xs mx-4">
+                            <h2 className="text-xl md:text-2xl text-[#73eff7] pixel-text mb-4">
+                                {t.paused}
+                            </h2>
+
+                            <div className="text-[10px] text-[#f4b41b] mb-6 pixel-text">
+                                {t.score}: {score}
+                            </div>
+
+                            <button
+                                onClick={resumeGame}
+                                className="pixel-btn pixel-btn-success w-full mb-3"
+                            >
+                                {t.resume}
+                            </button>
+
+                            <button
+                                onClick={handleMuteToggle}
+                                className="pixel-btn w-full mb-3 text-[10px]"
+                                style={{ background: '#333c57' }}
+                            >
+                                {isMuted ? t.soundOff : t.soundOn}
+                            </button>
+
+                            <button
+                                onClick={() => setShowSettings(true)}
+                                className="pixel-btn w-full mb-3 text-[10px]"
+                                style={{ background: '#333c57' }}
+                            >
+                                {t.settings}
+                            </button>
+
+                            <button
+                                onClick={quitToMenu}
+                                className="pixel-btn w-full text-[10px]"
+                                style={{ background: '#e43b44' }}
+                            >
+                                {t.quit}
+                            </button>
+
+                            <div className="text-[8px] text-[#f4f4f4] mt-4 opacity-70">
+                                {t.resumeHint}
+                            </div>
                         </div>
-                        <button
-                            onClick={handleMuteToggle}
-                            className="pixel-btn p-2 text-lg"
-                            style={{ padding: '8px 12px' }}
-                        >
-                            {isMuted ? '🔇' : '🔊'}
-                        </button>
                     </div>
                 )}
 
                 {/* Start Screen */}
                 {status === 'idle' && (
                     <div className="absolute inset-0 flex items-center justify-center bg-black/70 pointer-events-auto">
-                        <div className="pixel-box p-8 text-center max-w-xs mx-4">
+                        <div className="pixel-box p-8 text-center max-w-xs mx-4 max-h-full overflow-y-auto">
                             {/* Title */}
                             <h1 className="text-xl md:text-2xl text-[#f4b41b] pixel-text mb-2">
                                 🐹 HAMSTER
@@ -108,24 +328,83 @@ export function Game() {
 
                             {/* Instructions */}
                             <div className="text-[8px] md:text-[10px] text-[#f4f4f4] mb-6 space-y-2">
-                                <p>👈 TAP LEFT - MOVE LEFT</p>
-                                <p>👆 TAP CENTER - JUMP</p>
-                                <p>👉 TAP RIGHT - MOVE RIGHT</p>
+                                {controlScheme === 'zones' ? (
+                                    <>
+                                        <p>{t.tapLeft}</p>
+                                        <p>{t.tapCenter}</p>
+                                        <p>{t.tapRight}</p>
+                                    </>
+                                ) : (
+                                    <>
+                                        <p>{t.swipeMove}</p>
+                                        <p>{t.swipeUp}</p>
+                                    </>
+                                )}
+                                <p>{t.swipeDown}</p>
                             </div>
 
+                            <MissionList />
+
                             {/* High Score */}
                             {highScore > 0 && (
                                 <div className="text-[10px] text-[#f4b41b] mb-4 pixel-text">
-                                    HIGH SCORE: {highScore}
+                                    {t.highScore}: {highScore}
                                 </div>
                             )}
 
+                            <div className="text-[10px] text-[#f4b41b] mb-4 pixel-text">
+                                🪙 {wallet}
+                            </div>
+
                             {/* Start Button */}
                             <button
                                 onClick={startGame}
                                 className="pixel-btn pixel-btn-success w-full"
                             >
-                                ▶ START
+                                {t.start}
+                            </button>
+
+                            {/* Race the personal best */}
+                            {bestReplay && (
+                                <button
+                                    onClick={raceGhost}
+                                    className="pixel-btn mt-4 w-full text-[10px]"
+                                >
+                                    {t.raceGhost} ({bestReplay.score})
+                                </button>
+                            )}
+
+                            {/* Daily challenge */}
+                            <button
+                                onClick={startDaily}
+                                className="pixel-btn mt-4 w-full text-[10px]"
+                                style={{ background: '#f4b41b' }}
+                            >
+                                {t.dailyRun}
+                            </button>
+                            <div className="text-[8px] text-[#f4f4f4] mt-2 space-y-1">
+                                {todayModifiers.map((label) => (
+                                    <p key={label}>⚙ {t[MODIFIER_LABELS[label]]}</p>
+                                ))}
+                                {dailyScores[today] !== undefined && (
+                                    <p className="text-[#f4b41b]">{t.todaysBest}: {dailyScores[today]}</p>
+                                )}
+                            </div>
+                            <button
+                                onClick={() => setShowCalendar(!showCalendar)}
+                                className="pixel-btn mt-2 w-full text-[8px]"
+                                style={{ background: '#333c57', padding: '6px 8px' }}
+                            >
+                                {showCalendar ? t.hideCalendar : t.showCalendar}
+                            </button>
+                            {showCalendar && <DailyCalendar scores={dailyScores} today={today} />}
+
+                            <button
+                                onClick={() => setShowShop(true)}
+                                className="pixel-btn mt-4 w-full text-[10px]"
+                                style={{ background: '#f4b41b' }}
+                            >
+                                {t.shop}
                             </button>
 
                             {/* Mute toggle */}
@@ -134,8 +413,38 @@ export function Game() {
                                 className="pixel-btn mt-4 w-full text-[10px]"
                                 style={{ background: '#333c57' }}
                             >
-                                {isMuted ? '🔇 SOUND OFF' : '🔊 SOUND ON'}
+                                {isMuted ? t.soundOff : t.soundOn}
+                            </button>
+
+                            <button
+                                onClick={() => setShowSettings(true)}
+                                className="pixel-btn mt-4 w-full text-[10px]"
+                                style={{ background: '#333c57' }}
+                            >
+                                {t.settings}
+                            </button>
+
+                            <button
+                                onClick={() => setShowStats(true)}
+                                className="pixel-btn mt-4 w-full text-[10px]"
+                                style={{ background: '#333c57' }}
+                            >
+                                {t.stats}
                             </button>
+
+                            <button
+                                onClick={() => setShowAchievements(true)}
+                                className="pixel-btn mt-4 w-full text-[10px]"
+                                style={{ background: '#333c57' }}
+                            >
+                                {t.achievements}
+                            </button>
+
+                            {/* Replay import */}
+                            <ReplayImportButton
+                                className="pixel-btn mt-4 w-full text-[10px]"
+                                style={{ background: '#333c57' }}
+                            />
                         </div>
                     </div>
                 )}
@@ -143,44 +452,131 @@ export function Game() {
                 {/* Game Over Screen */}
                 {status === 'gameover' && (
                     <div className="absolute inset-0 flex items-center justify-center bg-black/80 pointer-events-auto">
-                        <div className="pixel-box p-8 text-center max-w-xs mx-4">
+                        <div className="pixel-box p-8 text-center max-w-xs mx-4 max-h-full overflow-y-auto">
                             {/* Game Over Title */}
                             <h2 className="text-xl md:text-2xl text-[#e43b44] pixel-text mb-4">
-                                💥 OUCH!
+                                {t.ouch}
                             </h2>
 
-                            {/* Score */}
-                            <div className="text-[14px] text-[#f4f4f4] mb-2 pixel-text">
-                                SCORE
-                            </div>
-                            <div className="text-2xl text-[#f4b41b] mb-4 pixel-text">
-                                {score}
-                            </div>
+                            {/* Score and what happened along the way */}
+                            <RunSummary score={score} world={world} />
 
-                            {/* High Score */}
-                            {score >= highScore && score > 0 && (
-                                <div className="text-[10px] text-[#73eff7] mb-4 pixel-text animate-pulse">
-                                    🎉 NEW HIGH SCORE! 🎉
+                            {/* Result of a ghost race */}
+                            {ghostMargin !== null && (
+                                <div className="text-[10px] mb-4 pixel-text" style={{ color: ghostMargin > 0 ? '#73eff7' : '#e43b44' }}>
+                                    👻 {ghostMargin > 0 ? t.beatGhostBy : t.ghostWinsBy} {Math.abs(ghostMargin)}
                                 </div>
                             )}
 
-                            {score < highScore && (
+                            {/* Daily best is tracked apart from the endless high score */}
+                            {mode === 'daily' ? (
                                 <div className="text-[10px] text-[#f4b41b] mb-4">
-                                    BEST: {highScore}
+                                    {t.dailyBest}: {dailyScores[runDay] ?? score}
                                 </div>
+                            ) : (
+                                <>
+                                    {/* High Score */}
+                                    {score >= highScore && score > 0 && (
+                                        <div className="text-[10px] text-[#73eff7] mb-4 pixel-text animate-pulse">
+                                            {t.newHighScore}
+                                        </div>
+                                    )}
+
+                                    {score < highScore && (
+                                        <div className="text-[10px] text-[#f4b41b] mb-4">
+                                            {t.best}: {highScore}
+                                        </div>
+                                    )}
+                                </>
                             )}
 
                             {/* Retry Button */}
                             <button
-                                onClick={restartGame}
+                                onClick={() => restartGame()}
                                 className="pixel-btn pixel-btn-success w-full mb-3"
                             >
-                                🔄 TRY AGAIN
+                                {t.tryAgain}
+                            </button>
+
+                            {bestReplay && (
+                                <button
+                                    onClick={raceGhost}
+                                    className="pixel-btn w-full mb-3 text-[10px]"
+                                >
+                                    {t.raceGhost} ({bestReplay.score})
+                                </button>
+                            )}
+
+                            {/* Replay of this run */}
+                            {lastReplay && (
+                                <div className="flex gap-2 mb-3">
+                                    <button
+                                        onClick={() => watchReplay(lastReplay)}
+                                        className="pixel-btn flex-1 text-[8px]"
+                                        style={{ padding: '8px 4px' }}
+                                    >
+                                        {t.watchRun}
+                                    </button>
+                                    <button
+                                        onClick={() => downloadReplay(lastReplay)}
+                                        className="pixel-btn flex-1 text-[8px]"
+                                        style={{ padding: '8px 4px', background: '#333c57' }}
+                                    >
+                                        {t.export}
+                                    </button>
+                                </div>
+                            )}
+
+                            {/* Seed sharing (daily runs are shared by date instead) */}
+                            {mode === 'endless' && (
+                                <>
+                                    <div className="text-[8px] text-[#f4f4f4] mb-2">
+                                        {t.seed}: {seed}
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => restartGame(seed)}
+                                            className="pixel-btn flex-1 text-[8px]"
+                                            style={{ padding: '8px 4px' }}
+                                        >
+                                            {t.sameSeed}
+                                        </button>
+                                        <button
+                                            onClick={handleCopySeed}
+                                            className="pixel-btn flex-1 text-[8px]"
+                                            style={{ padding: '8px 4px', background: '#333c57' }}
+                                        >
+                                            {seedCopied ? t.copied : t.share}
+                                        </button>
+                                    </div>
+                                </>
+                            )}
+
+                            {/* Back to the start screen for the daily run, shop and the rest */}
+                            <button
+                                onClick={quitToMenu}
+                                className="pixel-btn w-full mt-3 text-[8px]"
+                                style={{ padding: '8px 4px', background: '#333c57' }}
+                            >
+                                {t.menu}
                             </button>
                         </div>
                     </div>
                 )}
 
+                {/* Settings, opened from the start and pause screens */}
+                {showSettings && (status === 'idle' || status === 'paused') && (
+                    <SettingsPanel onClose={() => setShowSettings(false)} />
+                )}
+
+                {/* Lifetime stats, opened from the start screen */}
+                {showStats && status === 'idle' && <StatsPanel onClose={() => setShowStats(false)} />}
+                {showAchievements && status === 'idle' && <AchievementsPanel onClose={() => setShowAchievements(false)} />}
+                {showShop && status === 'idle' && <Shop onClose={() => setShowShop(false)} />}
+
+                {/* Achievement unlocks and other news */}
+                <Toasts />
+
                 {/* Touch zones indicator (debug, hidden in prod) */}
                 {/* 
         <div className="absolute inset-0 flex pointer-events-none">
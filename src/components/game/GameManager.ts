@@ -1,65 +1,255 @@
 import { create } from 'zustand';
+import {
+    createFixedLoop,
+    createGhost,
+    createReplay,
+    createSeeker,
+    createWorld,
+    dailyKey,
+    dailyModifiers,
+    dailySeed,
+    FixedLoop,
+    Ghost,
+    MAX_FRAME_DELTA,
+    parseReplay,
+    parseSeed,
+    raceMargin,
+    randomSeed,
+    Replay,
+    ReplaySeeker,
+    RunModifiers,
+    runFixedSteps,
+    seekWorld,
+    serializeReplay,
+    SimEvent,
+    SimInput,
+    START_SPEED,
+    syncGhost,
+    TimerQueue,
+    WorldState,
+} from './sim';
+import { checkAchievements, recordAchievementProgress } from './achievements';
+import { checkMissions, recordMissionProgress } from './missions';
+import { addRun, useProfileStore } from './profile';
+import { currentSettings } from './settings';
+
+interface Playback {
+    replay: Replay;
+    seeker: ReplaySeeker;
+    paused: boolean;
+    speed: number; // playback rate multiplier
+}
+
+type GameMode = 'endless' | 'daily';
+
+export interface DebugFlags {
+    safePath: boolean; // draw the fairness solver's path through upcoming hazards
+    hitboxes: boolean; // draw collision boxes as wireframes
+}
 
 interface GameState {
-    status: 'idle' | 'playing' | 'gameover';
+    status: 'idle' | 'playing' | 'paused' | 'gameover' | 'replay';
+    mode: GameMode;
+    seed: number; // seed of the current (or next) run
+    dailyKey: string; // UTC day of the current daily run
+    world: WorldState | null; // headless simulation driving the current run
+    loop: FixedLoop; // fixed-timestep accumulator; `alpha` drives render interpolation
+    pendingInputs: SimInput[];
     score: number;
     speed: number; // current effective speed
     baseSpeed: number; // baseline speed for progression
     playerLane: number;
     isJumping: boolean;
     screenShake: boolean;
-    highScore: number;
     boostActive: boolean;
     magnetActive: boolean;
+    shieldActive: boolean;
+    comboMultiplier: number;
+    timeScale: number; // below 1 during the slow motion after a near miss
+    lastReplay: Replay | null; // recording of the most recent finished run
+    playback: Playback | null; // set while status is 'replay'
+    bestReplay: Replay | null; // personal-best run, raced as a ghost
+    ghost: Ghost | null; // set while racing the personal best
+    ghostDelta: number | null; // live score minus ghost score at the same tick
+    ghostMargin: number | null; // final score minus the ghost's final score, set at game over
+    debug: DebugFlags;
 
     startGame: () => void;
+    startDaily: () => void;
     endGame: () => void;
-    restartGame: () => void;
-    incrementScore: (amount?: number) => void;
-    increaseSpeed: () => void;
-    setPlayerState: (lane: number, jumping: boolean) => void;
+    restartGame: (seed?: number) => void;
+    raceGhost: () => void;
+    pauseGame: () => void;
+    resumeGame: () => void;
+    quitToMenu: () => void;
+    queueInput: (input: SimInput) => void;
+    advance: (delta: number) => SimEvent[];
     triggerScreenShake: () => void;
-    activateBoost: (durationMs?: number) => void;
-    activateMagnet: (durationMs?: number) => void;
+    watchReplay: (replay: Replay) => void;
+    seekReplay: (tick: number) => void;
+    toggleReplayPaused: () => void;
+    setReplaySpeed: (speed: number) => void;
+    exitReplay: () => void;
+    toggleDebug: (flag: keyof DebugFlags) => void;
 }
 
-// Haptic feedback helper
+// Haptic feedback helper; silent when the player has turned vibration off
 const triggerHaptic = (pattern: number | number[] = 50) => {
-    if ('vibrate' in navigator) {
+    if (currentSettings().haptics && 'vibrate' in navigator) {
         navigator.vibrate(pattern);
     }
 };
 
+// UI effects (screen shake, ...) run on game time so they freeze while paused
+const timers = new TimerQueue();
+
+// A near miss plays the next moment in slow motion. Only the frames fed to the fixed
+// loop are slowed, so the ticks and a replay of the run stay the same
+const SLOW_MOTION_SCALE = 0.35;
+const SLOW_MOTION_DURATION = 0.4; // seconds
+let cancelSlowMotion: (() => void) | null = null;
+
+// A shared "try this seed" link (?seed=...) is played by the first Start; every later Start
+// rolls a fresh seed, so a quit, replay or daily run never leaves its course behind
+let linkedSeed = typeof window === 'undefined' ? null : parseSeed(new URLSearchParams(window.location.search).get('seed'));
+
+// Debug overlays can be switched on from the URL, e.g. ?debug=path,hitboxes
+const initialDebug = (): DebugFlags => {
+    const flags = typeof window === 'undefined' ? [] : (new URLSearchParams(window.location.search).get('debug') ?? '').split(',');
+    return { safePath: flags.includes('path'), hitboxes: flags.includes('hitboxes') };
+};
+
+const BEST_REPLAY_KEY = 'hamsterBestReplay';
+
+// Replays from older game versions are dropped rather than raced out of sync
+const loadBestReplay = (): Replay | null => {
+    if (typeof window === 'undefined') return null;
+    const stored = localStorage.getItem(BEST_REPLAY_KEY);
+    if (!stored) return null;
+    try {
+        return parseReplay(stored);
+    } catch {
+        localStorage.removeItem(BEST_REPLAY_KEY);
+        return null;
+    }
+};
+
+interface RunOptions {
+    mode?: GameMode;
+    ghost?: Ghost | null;
+    modifiers?: RunModifiers;
+}
+
+const freshRun = (seed: number, { mode = 'endless', ghost = null, modifiers = {} }: RunOptions = {}) => {
+    const world = createWorld({ seed, modifiers });
+    return {
+        status: 'playing' as const,
+        mode,
+        seed,
+        world,
+        ghost,
+        ghostDelta: ghost ? 0 : null,
+        ghostMargin: null,
+        loop: createFixedLoop(),
+        pendingInputs: [],
+        score: 0,
+        speed: world.speed,
+        baseSpeed: world.baseSpeed,
+        playerLane: 1,
+        isJumping: false,
+        screenShake: false,
+        boostActive: false,
+        magnetActive: false,
+        shieldActive: false,
+        comboMultiplier: 1,
+        timeScale: 1,
+    };
+};
+
+// Store fields that mirror the simulation for the UI
+const mirrorWorld = (world: WorldState, ghost: Ghost | null = null): Partial<GameState> => ({
+    ghostDelta: ghost ? world.score - ghost.world.score : null,
+    score: world.score,
+    speed: world.speed,
+    baseSpeed: world.baseSpeed,
+    playerLane: world.player.lane,
+    isJumping: world.player.jumping,
+    boostActive: world.powerUps.chilly > 0,
+    magnetActive: world.powerUps.magnet > 0,
+    shieldActive: world.powerUps.shield > 0,
+    comboMultiplier: world.combo.multiplier,
+});
+
+// Only the mirrored fields that changed, so subscribers are not notified every frame
+const worldUpdate = (current: GameState, world: WorldState): Partial<GameState> | null => {
+    const next = mirrorWorld(world, current.ghost);
+    const changed = (Object.keys(next) as (keyof GameState)[]).some((key) => current[key] !== next[key]);
+    return changed ? next : null;
+};
+
 export const useGameStore = create<GameState>((set, get) => ({
     status: 'idle',
+    mode: 'endless',
+    seed: linkedSeed ?? randomSeed(),
+    dailyKey: dailyKey(),
+    world: null,
+    loop: createFixedLoop(),
+    pendingInputs: [],
     score: 0,
-    speed: 0.12,
-    baseSpeed: 0.12,
+    speed: START_SPEED,
+    baseSpeed: START_SPEED,
     playerLane: 1,
     isJumping: false,
     screenShake: false,
-    highScore: typeof window !== 'undefined' ? parseInt(localStorage.getItem('hamsterHighScore') || '0') : 0,
     boostActive: false,
     magnetActive: false,
+    shieldActive: false,
+    comboMultiplier: 1,
+    timeScale: 1,
+    lastReplay: null,
+    playback: null,
+    bestReplay: loadBestReplay(),
+    ghost: null,
+    ghostDelta: null,
+    ghostMargin: null,
+    debug: initialDebug(),
 
-    startGame: () => set({
-        status: 'playing',
-        score: 0,
-        speed: 0.12,
-        baseSpeed: 0.12,
-        playerLane: 1,
-        isJumping: false,
-        screenShake: false,
-        boostActive: false,
-        magnetActive: false
-    }),
+    startGame: () => {
+        const seed = linkedSeed ?? randomSeed();
+        linkedSeed = null;
+        timers.clear();
+        set(freshRun(seed));
+    },
+
+    // Today's shared seed and modifiers, derived from the UTC date
+    startDaily: () => {
+        const key = dailyKey();
+        timers.clear();
+        set({ ...freshRun(dailySeed(key), { mode: 'daily', modifiers: dailyModifiers(key) }), dailyKey: key });
+    },
 
     endGame: () => {
-        const { score, highScore } = get();
-        const newHighScore = Math.max(score, highScore);
+        const { mode, score, world, bestReplay, ghost, dailyKey: day } = get();
+        const replay = world ? createReplay(world) : null;
+
+        // Daily bests are kept per UTC day, apart from the endless high score
+        useProfileStore.getState().update(({ highScores, stats, achievements, missions, currency }) => ({
+            highScores: mode === 'daily'
+                ? { ...highScores, daily: { ...highScores.daily, [day]: Math.max(score, highScores.daily[day] ?? 0) } }
+                : { ...highScores, endless: Math.max(score, highScores.endless) },
+            stats: addRun(stats, score, world),
+            achievements: world ? recordAchievementProgress(achievements, world, stats) : achievements,
+            missions: world ? recordMissionProgress(missions, world) : missions,
+            // Coins picked up are banked for the shop
+            currency: currency + (world?.stats.coins ?? 0),
+        }));
 
-        if (typeof window !== 'undefined') {
-            localStorage.setItem('hamsterHighScore', String(newHighScore));
+        if (mode === 'endless') {
+            const newBest = replay && score > 0 && score > (bestReplay?.score ?? 0) ? replay : bestReplay;
+            if (typeof window !== 'undefined' && newBest !== bestReplay) {
+                localStorage.setItem(BEST_REPLAY_KEY, serializeReplay(newBest));
+            }
+            set({ bestReplay: newBest });
         }
 
         // Haptic feedback on crash - strong vibration pattern
@@ -68,61 +258,154 @@ export const useGameStore = create<GameState>((set, get) => ({
         set({
             status: 'gameover',
             speed: 0,
-            highScore: newHighScore,
-            screenShake: true
+            screenShake: currentSettings().screenShake,
+            lastReplay: replay,
+            ghostMargin: ghost && world ? raceMargin(world, ghost) : null,
         });
 
         // Reset screen shake after animation
-        setTimeout(() => set({ screenShake: false }), 500);
+        timers.after(0.5, () => set({ screenShake: false }));
     },
 
-    restartGame: () => set({
-        status: 'playing',
-        score: 0,
-        speed: 0.12,
-        baseSpeed: 0.12,
-        playerLane: 1,
-        isJumping: false,
-        screenShake: false,
-        boostActive: false,
-        magnetActive: false
-    }),
+    // A daily run always retries the same daily; endless runs get a new seed unless one is given
+    restartGame: (seed = randomSeed()) => {
+        if (get().mode === 'daily') {
+            get().startDaily();
+            return;
+        }
+        timers.clear();
+        set(freshRun(seed));
+    },
+
+    // Replays the personal-best seed with the best run alongside as a ghost
+    raceGhost: () => {
+        const { bestReplay } = get();
+        if (!bestReplay) return;
+        timers.clear();
+        set(freshRun(bestReplay.seed, { ghost: createGhost(bestReplay) }));
+    },
 
-    incrementScore: (amount = 1) => {
-        // Light haptic on collect
-        triggerHaptic(20);
-        set((state) => ({ score: state.score + amount }));
+    pauseGame: () => {
+        if (get().status !== 'playing') return;
+        get().pendingInputs.length = 0;
+        set({ status: 'paused' });
     },
 
-    increaseSpeed: () => set((state) => ({
-        baseSpeed: Math.min(state.baseSpeed + 0.003, 0.4),
-        speed: Math.min((state.boostActive ? state.baseSpeed * 1.8 : state.baseSpeed), 0.6)
-    })),
+    resumeGame: () => {
+        if (get().status === 'paused') set({ status: 'playing' });
+    },
+
+    quitToMenu: () => {
+        timers.clear();
+        set({ status: 'idle', world: null, ghost: null, ghostDelta: null, ghostMargin: null, screenShake: false, boostActive: false, magnetActive: false, shieldActive: false, comboMultiplier: 1, timeScale: 1 });
+    },
+
+    queueInput: (input) => {
+        if (get().status === 'playing') {
+            get().pendingInputs.push(input);
+        }
+    },
+
+    // Runs the fixed ticks covered by this frame and mirrors the result into the store for the UI
+    advance: (delta) => {
+        const { world, loop, status, pendingInputs, playback, ghost, timeScale } = get();
+        if (status === 'paused') return [];
+
+        if (status === 'replay') {
+            if (!world || !playback || playback.paused) return [];
+            const events = runFixedSteps(loop, world, delta * playback.speed, (tick) => playback.seeker.byTick.get(tick) ?? []);
+            const update = worldUpdate(get(), world);
+            if (update) set(update);
+            // Hold on the final frame once the recorded run ends
+            if (world.status !== 'playing') set({ playback: { ...playback, paused: true } });
+            return events;
+        }
+
+        timers.update(Math.min(delta, MAX_FRAME_DELTA));
+        if (!world || status !== 'playing') return [];
+
+        const events = runFixedSteps(loop, world, delta * timeScale, () => pendingInputs.splice(0));
+        if (ghost) syncGhost(ghost, world.tick);
+
+        events.forEach((event) => {
+            if (event.type === 'collect') {
+                // Light haptic on collect
+                triggerHaptic(20);
+            } else if (event.type === 'powerUpStart') {
+                // Strong haptic for boost, a gentle pulse for the rest
+                triggerHaptic(event.powerUp === 'chilly' ? [40, 40, 40] : [20, 20, 20]);
+            } else if (event.type === 'absorb') {
+                triggerHaptic([60, 30, 60]);
+            } else if (event.type === 'nearMiss') {
+                triggerHaptic(30);
+                cancelSlowMotion?.();
+                set({ timeScale: SLOW_MOTION_SCALE });
+                cancelSlowMotion = timers.after(SLOW_MOTION_DURATION, () => set({ timeScale: 1 }));
+            }
+        });
 
-    setPlayerState: (lane, jumping) => set({ playerLane: lane, isJumping: jumping }),
+        const update = worldUpdate(get(), world);
+        if (update) set(update);
+
+        if (events.length > 0) {
+            checkAchievements(world);
+            checkMissions(world);
+        }
+        if (world.status === 'gameover') get().endGame();
+
+        return events;
+    },
 
     triggerScreenShake: () => {
+        if (!currentSettings().screenShake) return;
         set({ screenShake: true });
-        setTimeout(() => set({ screenShake: false }), 500);
+        timers.after(0.5, () => set({ screenShake: false }));
     },
 
-    activateBoost: (durationMs = 5000) => {
-        const { baseSpeed } = get();
-        set({ boostActive: true, speed: Math.min(baseSpeed * 1.8, 0.6) });
-        // Strong haptic for boost
-        triggerHaptic([40, 40, 40]);
-        setTimeout(() => {
-            const { baseSpeed: bs } = get();
-            set({ boostActive: false, speed: bs });
-        }, durationMs);
+    watchReplay: (replay) => {
+        timers.clear();
+        const seeker = createSeeker(replay);
+        const world = seekWorld(seeker, 0);
+        set({
+            ...mirrorWorld(world),
+            status: 'replay',
+            seed: replay.seed,
+            world,
+            loop: createFixedLoop(),
+            pendingInputs: [],
+            ghost: null,
+            screenShake: false,
+            timeScale: 1,
+            playback: { replay, seeker, paused: false, speed: 1 },
+        });
+    },
+
+    // Deterministic sim: seeking re-simulates from the nearest saved world to the target tick
+    seekReplay: (tick) => {
+        const { playback } = get();
+        if (!playback) return;
+        const world = seekWorld(playback.seeker, tick);
+        const loop = createFixedLoop();
+        loop.alpha = 1;
+        set({ ...mirrorWorld(world), world, loop });
     },
 
-    activateMagnet: (durationMs = 8000) => {
-        set({ magnetActive: true });
-        // Gentle pulse haptic
-        triggerHaptic([20, 20, 20]);
-        setTimeout(() => set({ magnetActive: false }), durationMs);
+    toggleReplayPaused: () => {
+        const { playback, world } = get();
+        if (!playback || !world) return;
+        // Restart from the beginning when resuming at the end of the recording
+        if (playback.paused && world.status !== 'playing') get().seekReplay(0);
+        set({ playback: { ...playback, paused: !playback.paused } });
     },
+
+    setReplaySpeed: (speed) => {
+        const { playback } = get();
+        if (playback) set({ playback: { ...playback, speed } });
+    },
+
+    exitReplay: () => set({ status: 'idle', world: null, playback: null }),
+
+    toggleDebug: (flag) => set({ debug: { ...get().debug, [flag]: !get().debug[flag] } }),
 }));
 
 export { triggerHaptic };
@@ -0,0 +1,36 @@
+import { fill, useStrings } from './i18n';
+import { MISSION_KINDS, missionProgress } from './missions';
+import { useProfileStore } from './profile';
+
+// The active missions with their progress, shown on the start screen
+export function MissionList() {
+    const missions = useProfileStore((s) => s.profile.missions);
+    const t = useStrings();
+
+    return (
+        <div className="mb-6 text-left">
+            <div className="flex justify-between text-[8px] mb-2">
+                <span className="text-[#73eff7]">{t.missions}</span>
+                <span className="text-[#f4f4f4] opacity-70">{t.missionsCompleted}: {missions.completed}</span>
+            </div>
+            {missions.active.filter((m) => MISSION_KINDS[m.kind]).map((m) => {
+                const kind = MISSION_KINDS[m.kind];
+                const progress = Math.min(m.target, missionProgress(m, null));
+                return (
+                    <div key={m.id} className="flex items-center gap-2 mb-2">
+                        <span className="text-sm">{kind.icon}</span>
+                        <div className="flex-1">
+                            <div className="text-[8px] text-[#f4f4f4]">{fill(t[kind.text], m.target)}</div>
+                            <div className="flex items-center gap-2 mt-1">
+                                <div className="flex-1 h-[6px] bg-[#1a1c2c]">
+                                    <div className="h-full bg-[#f4b41b]" style={{ width: `${(progress / m.target) * 100}%` }} />
+                                </div>
+                                <span className="text-[8px] text-[#f4b41b]">{progress}/{m.target}</span>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
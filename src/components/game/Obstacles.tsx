@@ -1,252 +1,202 @@
-import { useRef, useState, useMemo } from 'react';
+import { useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Group, MathUtils } from 'three';
+import {
+    BoxGeometry,
+    BufferGeometry,
+    CapsuleGeometry,
+    ConeGeometry,
+    CylinderGeometry,
+    DodecahedronGeometry,
+    InstancedMesh,
+    Material,
+    Matrix4,
+    MeshStandardMaterial,
+    Object3D,
+    TorusGeometry,
+} from 'three';
+import { biomeBlendAt, blendColor, ObstacleSkin } from './biomes';
+import { currentLoadout } from './cosmetics';
 import { useGameStore } from './GameManager';
-import { audioController } from './AudioManager';
+import { partMatrix, Vec3 } from './instancing';
+import { HAZARDS, interpolate, LANES, ObstacleType, SimObstacle } from './sim';
 
-const LANES = [-1.8, 0, 1.8];
-const SPAWN_DISTANCE = -60;
-const DESPAWN_DISTANCE = 8;
-const COLLISION_THRESHOLD_Z = 1.0;
-const COLLISION_THRESHOLD_X = 0.8;
+// Instances per mesh part; more than this many of one type on screen are not drawn
+const POOL_SIZE = 48;
 
-type ObstacleType = 'rock' | 'chilly' | 'coin' | 'magnet';
-
-interface ObstacleData {
-    id: string;
+// One mesh of an obstacle model, drawn for every obstacle of its type as an instance
+interface Part {
     type: ObstacleType;
-    lane: number;
-    z: number;
+    geometry: BufferGeometry;
+    material: Material;
+    matrix: Matrix4; // transform within the obstacle
+    when?: (obstacle: SimObstacle) => boolean;
 }
 
+// Shared materials; glows are emissive rather than per-item point lights
+const MATERIALS = {
+    rock: new MeshStandardMaterial({ color: '#6b6b6b', roughness: 0.9, flatShading: true }),
+    rockSmall: new MeshStandardMaterial({ color: '#7a7a7a', roughness: 0.9, flatShading: true }),
+    danger: new MeshStandardMaterial({ color: '#e43b44', emissive: '#e43b44', emissiveIntensity: 0.3 }),
+    post: new MeshStandardMaterial({ color: '#5d3a1a', roughness: 0.9 }),
+    wood: new MeshStandardMaterial({ color: '#8b5a2b', roughness: 0.9, flatShading: true }),
+    leaves: new MeshStandardMaterial({ color: '#3e8948', roughness: 0.8, flatShading: true }),
+    cutWood: new MeshStandardMaterial({ color: '#d4a373', roughness: 0.8 }),
+    chilly: new MeshStandardMaterial({ color: '#3e8948', roughness: 0.6, emissive: '#73eff7', emissiveIntensity: 0.35 }),
+    stem: new MeshStandardMaterial({ color: '#2d5a30' }),
+    coin: new MeshStandardMaterial({ color: '#f4b41b', emissive: '#f4b41b', emissiveIntensity: 0.5, metalness: 0.6, roughness: 0.2 }),
+    shine: new MeshStandardMaterial({ color: '#fff', transparent: true, opacity: 0.6 }),
+    magnet: new MeshStandardMaterial({ color: '#e43b44', emissive: '#e43b44', emissiveIntensity: 0.5 }),
+    magnetTip: new MeshStandardMaterial({ color: '#73eff7', emissive: '#73eff7', emissiveIntensity: 0.6 }),
+    shield: new MeshStandardMaterial({ color: '#41a6f6', emissive: '#41a6f6', emissiveIntensity: 0.5, metalness: 0.4, roughness: 0.3 }),
+    shieldFace: new MeshStandardMaterial({ color: '#f4f4f4', emissive: '#73eff7', emissiveIntensity: 0.3 }),
+    doubler: new MeshStandardMaterial({ color: '#a7f070', emissive: '#a7f070', emissiveIntensity: 0.5 }),
+    doublerMark: new MeshStandardMaterial({ color: '#f4f4f4', emissive: '#f4f4f4', emissiveIntensity: 0.4 }),
+    glass: new MeshStandardMaterial({ color: '#73eff7', emissive: '#73eff7', emissiveIntensity: 0.4, transparent: true, opacity: 0.6 }),
+    sand: new MeshStandardMaterial({ color: '#f4b41b', emissive: '#f4b41b', emissiveIntensity: 0.3 }),
+};
+
+// Materials re-colored by the biome the run is in, unless a shop theme is equipped
+const SKINNED: readonly (keyof ObstacleSkin)[] = ['rock', 'rockSmall', 'wood', 'leaves'];
+
+const dangerCone = new ConeGeometry(0.15, 0.3, 4);
+
+const part = (
+    type: ObstacleType,
+    geometry: BufferGeometry,
+    material: Material,
+    position: Vec3,
+    rotation?: Vec3,
+    when?: Part['when'],
+): Part => ({ type, geometry, material, matrix: partMatrix(position, rotation), when });
+
+// Every model as a list of parts, positioned as the per-item meshes used to be
+const PARTS: Part[] = [
+    // Rock: body, a second smaller rock on half of them, danger indicator
+    part('rock', new DodecahedronGeometry(0.5, 0), MATERIALS.rock, [0, 0.35, 0]),
+    part('rock', new DodecahedronGeometry(0.25, 0), MATERIALS.rockSmall, [0.3, 0.2, 0.2], undefined, (o) => o.variant > 0.5),
+    part('rock', dangerCone, MATERIALS.danger, [0, 0.9, 0]),
+
+    // Branch: two posts, the bough, a leafy canopy above it
+    part('branch', new CylinderGeometry(0.07, 0.09, 1.2, 6), MATERIALS.post, [-0.7, 0.6, 0]),
+    part('branch', new CylinderGeometry(0.07, 0.09, 1.2, 6), MATERIALS.post, [0.7, 0.6, 0]),
+    part('branch', new CylinderGeometry(0.14, 0.18, 1.7, 8), MATERIALS.wood, [0, 1.0, 0], [0, 0, Math.PI / 2]),
+    part('branch', new DodecahedronGeometry(0.4, 0), MATERIALS.leaves, [-0.5, 1.55, 0]),
+    part('branch', new DodecahedronGeometry(0.45, 0), MATERIALS.leaves, [0.1, 1.95, 0]),
+    part('branch', new DodecahedronGeometry(0.35, 0), MATERIALS.leaves, [0.55, 1.5, 0]),
+    part('branch', dangerCone, MATERIALS.danger, [0, 2.6, 0]),
+
+    // Log: trunk, cut top, danger indicator
+    part('log', new CylinderGeometry(0.4, 0.45, 2.2, 10), MATERIALS.wood, [0, 1.1, 0]),
+    part('log', new CylinderGeometry(0.36, 0.36, 0.02, 10), MATERIALS.cutWood, [0, 2.21, 0]),
+    part('log', dangerCone, MATERIALS.danger, [0, 2.5, 0]),
+
+    // Chilly: body and stem
+    part('chilly', new CapsuleGeometry(0.12, 0.5, 4, 8), MATERIALS.chilly, [0, 0, 0], [0.3, 0, 0]),
+    part('chilly', new CylinderGeometry(0.05, 0.08, 0.15, 6), MATERIALS.stem, [0, 0.35, 0]),
+
+    // Coin: ring and shine
+    part('coin', new TorusGeometry(0.35, 0.08, 12, 24), MATERIALS.coin, [0, 0, 0]),
+    part('coin', new BoxGeometry(0.05, 0.5, 0.02), MATERIALS.shine, [0, 0, 0], [0, 0, Math.PI / 4]),
+
+    // Magnet: horseshoe and tips
+    part('magnet', new TorusGeometry(0.35, 0.12, 12, 24), MATERIALS.magnet, [0, 0, 0]),
+    part('magnet', new BoxGeometry(0.2, 0.18, 0.2), MATERIALS.magnetTip, [0.3, 0, 0]),
+    part('magnet', new BoxGeometry(0.2, 0.18, 0.2), MATERIALS.magnetTip, [-0.3, 0, 0]),
+
+    // Shield: hexagonal plate with a lighter boss
+    part('shield', new CylinderGeometry(0.4, 0.4, 0.08, 6), MATERIALS.shield, [0, 0, 0], [Math.PI / 2, 0, 0]),
+    part('shield', new CylinderGeometry(0.22, 0.22, 0.12, 6), MATERIALS.shieldFace, [0, 0, 0], [Math.PI / 2, 0, 0]),
+
+    // Doubler: ring around a cross
+    part('doubler', new TorusGeometry(0.36, 0.06, 8, 24), MATERIALS.doubler, [0, 0, 0]),
+    part('doubler', new BoxGeometry(0.09, 0.46, 0.09), MATERIALS.doublerMark, [0, 0, 0], [0, 0, Math.PI / 4]),
+    part('doubler', new BoxGeometry(0.09, 0.46, 0.09), MATERIALS.doublerMark, [0, 0, 0], [0, 0, -Math.PI / 4]),
+
+    // Hourglass: two glass bulbs tip to tip, sand at the bottom, wooden caps
+    part('hourglass', new ConeGeometry(0.22, 0.34, 8), MATERIALS.glass, [0, 0.17, 0], [Math.PI, 0, 0]),
+    part('hourglass', new ConeGeometry(0.22, 0.34, 8), MATERIALS.glass, [0, -0.17, 0]),
+    part('hourglass', new ConeGeometry(0.14, 0.14, 8), MATERIALS.sand, [0, -0.27, 0]),
+    part('hourglass', new CylinderGeometry(0.26, 0.26, 0.05, 8), MATERIALS.post, [0, 0.36, 0]),
+    part('hourglass', new CylinderGeometry(0.26, 0.26, 0.05, 8), MATERIALS.post, [0, -0.36, 0]),
+];
+
+const PARTS_BY_TYPE = PARTS.reduce((byType, p, index) => {
+    byType[p.type] = [...(byType[p.type] ?? []), index];
+    return byType;
+}, {} as Partial<Record<ObstacleType, number[]>>);
+
+// Scratch objects reused every frame
+const placement = new Object3D();
+const instanceMatrix = new Matrix4();
+const counts = PARTS.map(() => 0);
+
 export function Obstacles() {
     return <ObstacleManager />;
 }
 
+// Draws whatever obstacles the simulation holds straight from the world each frame, so
+// spawns and despawns never re-render React
 function ObstacleManager() {
-    const [items, setItems] = useState<ObstacleData[]>([]);
-    const { speed, status, increaseSpeed } = useGameStore();
-    const nextSpawnTime = useRef(0);
-    const spawnCount = useRef(0);
-
-    const spawn = () => {
-        const id = MathUtils.generateUUID();
-        const typeProb = Math.random();
-        let type: ObstacleType = 'rock';
-        // Weighted spawn: rocks (50%), coins (30%), chilly (15%), magnet (5%)
-        if (typeProb < 0.5) type = 'rock';
-        else if (typeProb < 0.8) type = 'coin';
-        else if (typeProb < 0.95) type = 'chilly';
-        else type = 'magnet';
-        const lane = Math.floor(Math.random() * 3);
-
-        setItems(prev => [...prev, { id, type, lane, z: SPAWN_DISTANCE }]);
-        spawnCount.current++;
-
-        // Increase speed every 10 spawns
-        if (spawnCount.current % 10 === 0) {
-            increaseSpeed();
+    const meshes = useRef<(InstancedMesh | null)[]>([]);
+    const spin = useRef(0);
+
+    useFrame((_, delta) => {
+        const { world, loop, status } = useGameStore.getState();
+
+        // Collectibles spin and bob only while the run is moving
+        if (status === 'playing' || status === 'replay') spin.current += delta;
+
+        const theme = currentLoadout().obstacles;
+        if (theme.skin) {
+            const { skin } = theme;
+            SKINNED.forEach((name) => MATERIALS[name].color.set(skin[name]));
+        } else {
+            const skin = biomeBlendAt(world?.distance ?? 0);
+            SKINNED.forEach((name) => blendColor(MATERIALS[name].color, skin, (b) => b.skin[name]));
         }
-    };
-
-    const removeItem = (id: string) => {
-        setItems(prev => prev.filter(i => i.id !== id));
-    };
-
-    useFrame((state, delta) => {
-        if (status !== 'playing') {
-            if (status === 'idle' && items.length > 0) {
-                setItems([]);
-                spawnCount.current = 0;
+        MATERIALS.danger.color.set(theme.danger);
+        MATERIALS.danger.emissive.set(theme.danger);
+
+        counts.fill(0);
+        world?.obstacles.forEach((obstacle) => {
+            if (obstacle.collected && !HAZARDS[obstacle.type]) return;
+
+            placement.position.set(LANES[obstacle.lane], 0, interpolate(obstacle.prevZ, obstacle.z, loop.alpha));
+            if (HAZARDS[obstacle.type]) {
+                // Half the branches are turned around so their canopies differ
+                placement.rotation.set(0, obstacle.type === 'branch' && obstacle.variant > 0.5 ? Math.PI : 0, 0);
+            } else {
+                placement.position.y = 0.5 + Math.sin(spin.current * 3) * 0.15;
+                placement.rotation.set(0, spin.current * 3 + obstacle.id, 0);
             }
-            return;
-        }
-
-        nextSpawnTime.current -= delta;
-        if (nextSpawnTime.current <= 0) {
-            spawn();
-            // Random gap between spawns, gets shorter as speed increases
-            nextSpawnTime.current = (1.5 + Math.random() * 1.5) / (speed / 0.12);
-        }
+            placement.updateMatrix();
+
+            PARTS_BY_TYPE[obstacle.type]?.forEach((index) => {
+                const mesh = meshes.current[index];
+                const p = PARTS[index];
+                if (!mesh || counts[index] >= POOL_SIZE || (p.when && !p.when(obstacle))) return;
+                mesh.setMatrixAt(counts[index]++, instanceMatrix.multiplyMatrices(placement.matrix, p.matrix));
+            });
+        });
+
+        meshes.current.forEach((mesh, index) => {
+            if (!mesh) return;
+            mesh.count = counts[index];
+            mesh.instanceMatrix.needsUpdate = true;
+        });
     });
 
     return (
         <>
-            {items.map(item => (
-                <ObstacleItem key={item.id} data={item} onRemove={() => removeItem(item.id)} />
+            {PARTS.map((p, index) => (
+                <instancedMesh
+                    key={index}
+                    ref={(mesh) => { meshes.current[index] = mesh; }}
+                    args={[p.geometry, p.material, POOL_SIZE]}
+                    castShadow
+                    frustumCulled={false}
+                />
             ))}
         </>
     );
 }
-
-function ObstacleItem({ data, onRemove }: { data: ObstacleData; onRemove: () => void }) {
-    const ref = useRef<Group>(null);
-    const { speed, status, playerLane, isJumping, endGame, incrementScore, activateBoost, activateMagnet, magnetActive } = useGameStore();
-    const collected = useRef(false);
-    const rotationSpeed = useMemo(() => (Math.random() - 0.5) * 2, []);
-
-    useFrame((state, delta) => {
-        if (!ref.current) return;
-
-        if (status !== 'playing') return;
-
-        // Move toward player
-        ref.current.position.z += speed * 60 * delta;
-
-        // Rotate collectibles
-        if (data.type === 'chilly' || data.type === 'coin' || data.type === 'magnet') {
-            ref.current.rotation.y += delta * 3;
-            ref.current.position.y = 0.5 + Math.sin(state.clock.elapsedTime * 3) * 0.15;
-        }
-
-        // Despawn check
-        if (ref.current.position.z > DESPAWN_DISTANCE) {
-            onRemove();
-            return;
-        }
-
-        // Collision detection
-        if (!collected.current) {
-            const distZ = Math.abs(ref.current.position.z);
-            const laneMatch = data.lane === playerLane;
-            const withinZ = distZ < COLLISION_THRESHOLD_Z;
-
-            if (withinZ && (laneMatch || (magnetActive && data.type === 'coin'))) {
-                if (data.type === 'rock') {
-                    if (!isJumping) {
-                        audioController.play('crash');
-                        endGame();
-                        collected.current = true;
-                    }
-                } else if (data.type === 'chilly') {
-                    // Speed boost power-up
-                    audioController.play('collect');
-                    activateBoost(4000);
-                    incrementScore(2);
-                    collected.current = true;
-                    ref.current.visible = false;
-                } else if (data.type === 'coin') {
-                    audioController.play('collect');
-                    incrementScore(5);
-                    collected.current = true;
-                    ref.current.visible = false;
-                } else if (data.type === 'magnet') {
-                    audioController.play('collect');
-                    activateMagnet(8000);
-                    incrementScore(3);
-                    collected.current = true;
-                    ref.current.visible = false;
-                }
-            }
-        }
-    });
-
-    const xPos = LANES[data.lane];
-
-    return (
-        <group ref={ref} position={[xPos, data.type === 'rock' ? 0 : 0.5, data.z]}>
-            {data.type === 'rock' && <Rock />}
-            {data.type === 'chilly' && <Chilly />}
-            {data.type === 'coin' && <Coin />}
-            {data.type === 'magnet' && <Magnet />}
-        </group>
-    );
-}
-
-function Rock() {
-    const rockVariant = useMemo(() => Math.random(), []);
-
-    return (
-        <group>
-            {/* Main rock body */}
-            <mesh position={[0, 0.35, 0]} castShadow>
-                <dodecahedronGeometry args={[0.5, 0]} />
-                <meshStandardMaterial
-                    color="#6b6b6b"
-                    roughness={0.9}
-                    flatShading
-                />
-            </mesh>
-            {/* Secondary smaller rock */}
-            {rockVariant > 0.5 && (
-                <mesh position={[0.3, 0.2, 0.2]} castShadow>
-                    <dodecahedronGeometry args={[0.25, 0]} />
-                    <meshStandardMaterial
-                        color="#7a7a7a"
-                        roughness={0.9}
-                        flatShading
-                    />
-                </mesh>
-            )}
-            {/* Danger indicator */}
-            <mesh position={[0, 0.9, 0]}>
-                <coneGeometry args={[0.15, 0.3, 4]} />
-                <meshStandardMaterial color="#e43b44" emissive="#e43b44" emissiveIntensity={0.3} />
-            </mesh>
-        </group>
-    );
-}
-
-function Chilly() {
-    return (
-        <group>
-            {/* Chilly body */}
-            <mesh rotation={[0.3, 0, 0]} castShadow>
-                <capsuleGeometry args={[0.12, 0.5, 4, 8]} />
-                <meshStandardMaterial
-                    color="#3e8948"
-                    roughness={0.6}
-                    emissive="#3e8948"
-                    emissiveIntensity={0.2}
-                />
-            </mesh>
-            {/* Stem */}
-            <mesh position={[0, 0.35, 0]}>
-                <cylinderGeometry args={[0.05, 0.08, 0.15, 6]} />
-                <meshStandardMaterial color="#2d5a30" />
-            </mesh>
-            {/* Glow effect */}
-            <pointLight position={[0, 0, 0]} color="#73eff7" intensity={0.5} distance={2} />
-        </group>
-    );
-}
-
-function Coin() {
-    return (
-        <group>
-            {/* Coin body */}
-            <mesh castShadow>
-                <torusGeometry args={[0.35, 0.08, 12, 24]} />
-                <meshStandardMaterial color="#f4b41b" emissive="#f4b41b" emissiveIntensity={0.4} metalness={0.6} roughness={0.2} />
-            </mesh>
-            {/* Shine */}
-            <mesh rotation={[0, 0, Math.PI / 4]}>
-                <boxGeometry args={[0.05, 0.5, 0.02]} />
-                <meshStandardMaterial color="#fff" transparent opacity={0.6} />
-            </mesh>
-        </group>
-    );
-}
-
-function Magnet() {
-    return (
-        <group>
-            {/* Horseshoe magnet */}
-            <mesh castShadow>
-                <torusGeometry args={[0.35, 0.12, 12, 24]} />
-                <meshStandardMaterial color="#e43b44" emissive="#e43b44" emissiveIntensity={0.3} />
-            </mesh>
-            {/* Tips */}
-            <mesh position={[0.3, 0, 0]}>
-                <boxGeometry args={[0.2, 0.18, 0.2]} />
-                <meshStandardMaterial color="#73eff7" />
-            </mesh>
-            <mesh position={[-0.3, 0, 0]}>
-                <boxGeometry args={[0.2, 0.18, 0.2]} />
-                <meshStandardMaterial color="#73eff7" />
-            </mesh>
-            {/* Field glow */}
-            <pointLight position={[0, 0, 0]} color="#73eff7" intensity={0.6} distance={2.5} />
-        </group>
-    );
-}
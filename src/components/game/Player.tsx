@@ -1,45 +1,28 @@
-import { useRef, useState, useEffect, useCallback } from 'react';
+import { useRef, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Group } from 'three';
+import { CosmeticOf, Loadout, useLoadout } from './cosmetics';
 import { useGameStore } from './GameManager';
-import { audioController } from './AudioManager';
+import { useQuality } from './quality';
+import { useSettingsStore } from './settings';
+import { interpolate, SimPlayer } from './sim';
 
-const LANES = [-1.8, 0, 1.8];
-const JUMP_HEIGHT = 2;
-const JUMP_DURATION = 0.45;
+// Minimum drag, in pixels, that counts as a swipe
+const SWIPE_THRESHOLD = 40;
+
+// Squashed and leaning forward while sliding
+function applySlidePose(group: Group, player: SimPlayer) {
+    group.scale.set(player.sliding ? 1.2 : 1, player.sliding ? 0.5 : 1, player.sliding ? 1.2 : 1);
+    group.rotation.x = player.sliding ? -0.3 : 0;
+}
 
 export function Player() {
     const group = useRef<Group>(null);
-    const [laneIndex, setLaneIndex] = useState(1);
-    const [isJumping, setIsJumping] = useState(false);
-    const jumpStartTime = useRef(0);
 
-    const { status, setPlayerState, boostActive } = useGameStore();
-
-    // Sync state to store
-    useEffect(() => {
-        setPlayerState(laneIndex, isJumping);
-    }, [laneIndex, isJumping, setPlayerState]);
-
-    const jump = useCallback(() => {
-        if (!isJumping && status === 'playing') {
-            setIsJumping(true);
-            jumpStartTime.current = Date.now();
-            audioController.play('jump');
-        }
-    }, [isJumping, status]);
-
-    const moveLeft = useCallback(() => {
-        if (status === 'playing') {
-            setLaneIndex((prev) => Math.max(0, prev - 1));
-        }
-    }, [status]);
-
-    const moveRight = useCallback(() => {
-        if (status === 'playing') {
-            setLaneIndex((prev) => Math.min(LANES.length - 1, prev + 1));
-        }
-    }, [status]);
+    const { status, queueInput, boostActive, shieldActive } = useGameStore();
+    const quality = useQuality();
+    const loadout = useLoadout();
+    const controlScheme = useSettingsStore((s) => s.controlScheme);
 
     useEffect(() => {
         // Keyboard controls
@@ -47,73 +30,91 @@ export function Player() {
             if (status !== 'playing') return;
 
             if (e.key === 'ArrowLeft' || e.key === 'a') {
-                moveLeft();
+                queueInput('left');
             } else if (e.key === 'ArrowRight' || e.key === 'd') {
-                moveRight();
+                queueInput('right');
             } else if (e.key === 'ArrowUp' || e.key === ' ' || e.key === 'w') {
-                jump();
+                queueInput('jump');
+            } else if (e.key === 'ArrowDown' || e.key === 's') {
+                queueInput('slide');
             }
         };
 
-        // Touch controls - divide screen into 3 zones
+        // Touch controls - 'zones': swipe down to slide, otherwise the screen is divided into 3 zones;
+        // 'swipe': swipe left/right/up/down to move, jump and slide, and a tap jumps
+        let touchStart: { x: number; y: number; swiped: boolean } | null = null;
+
         const handleTouchStart = (e: TouchEvent) => {
             if (status !== 'playing') return;
+            const touch = e.touches[0];
+            touchStart = { x: touch.clientX, y: touch.clientY, swiped: false };
+        };
 
+        const handleTouchMove = (e: TouchEvent) => {
+            if (!touchStart || touchStart.swiped) return;
             const touch = e.touches[0];
+            const dx = touch.clientX - touchStart.x;
+            const dy = touch.clientY - touchStart.y;
+            const vertical = Math.abs(dy) > Math.abs(dx);
+            if (vertical && dy > SWIPE_THRESHOLD) {
+                touchStart.swiped = true;
+                queueInput('slide');
+            } else if (controlScheme === 'swipe' && vertical && dy < -SWIPE_THRESHOLD) {
+                touchStart.swiped = true;
+                queueInput('jump');
+            } else if (controlScheme === 'swipe' && !vertical && Math.abs(dx) > SWIPE_THRESHOLD) {
+                touchStart.swiped = true;
+                queueInput(dx < 0 ? 'left' : 'right');
+            }
+        };
+
+        // Taps resolve on release so a swipe is not also read as a tap
+        const handleTouchEnd = () => {
+            if (!touchStart || touchStart.swiped || status !== 'playing') {
+                touchStart = null;
+                return;
+            }
+
             const screenWidth = window.innerWidth;
-            const touchX = touch.clientX;
+            const touchX = touchStart.x;
+            touchStart = null;
 
-            if (touchX < screenWidth / 3) {
-                moveLeft();
+            if (controlScheme === 'swipe') {
+                queueInput('jump');
+            } else if (touchX < screenWidth / 3) {
+                queueInput('left');
             } else if (touchX > (screenWidth * 2) / 3) {
-                moveRight();
+                queueInput('right');
             } else {
-                jump();
+                queueInput('jump');
             }
         };
 
         window.addEventListener('keydown', handleKeyDown);
         window.addEventListener('touchstart', handleTouchStart);
+        window.addEventListener('touchmove', handleTouchMove);
+        window.addEventListener('touchend', handleTouchEnd);
 
         return () => {
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('touchstart', handleTouchStart);
+            window.removeEventListener('touchmove', handleTouchMove);
+            window.removeEventListener('touchend', handleTouchEnd);
         };
-    }, [status, jump, moveLeft, moveRight]);
-
-    // Reset position when game starts
-    useEffect(() => {
-        if (status === 'playing') {
-            setLaneIndex(1);
-            setIsJumping(false);
-            if (group.current) {
-                group.current.position.x = 0;
-                group.current.position.y = 0;
-            }
-        }
-    }, [status]);
+    }, [status, queueInput, controlScheme]);
 
     useFrame(() => {
-        if (!group.current) return;
+        const { world, loop } = useGameStore.getState();
+        if (!group.current || !world) return;
 
-        // Smooth lane transition
-        const targetX = LANES[laneIndex];
-        group.current.position.x += (targetX - group.current.position.x) * 0.15;
-
-        // Jump physics
-        if (isJumping) {
-            const elapsed = (Date.now() - jumpStartTime.current) / 1000;
-            if (elapsed < JUMP_DURATION) {
-                const progress = elapsed / JUMP_DURATION;
-                group.current.position.y = 4 * JUMP_HEIGHT * progress * (1 - progress);
-            } else {
-                group.current.position.y = 0;
-                setIsJumping(false);
-            }
-        }
+        // Position comes from the simulation, interpolated between logic ticks
+        const { player } = world;
+        group.current.position.x = interpolate(player.prevX, player.x, loop.alpha);
+        group.current.position.y = interpolate(player.prevY, player.y, loop.alpha);
+        applySlidePose(group.current, player);
 
         // Running animation bobbing
-        if (!isJumping && status === 'playing') {
+        if (!player.jumping && !player.sliding && (status === 'playing' || status === 'replay')) {
             group.current.position.y = Math.abs(Math.sin(Date.now() / 80)) * 0.15;
             // Slight tilt while running
             group.current.rotation.z = Math.sin(Date.now() / 100) * 0.05;
@@ -136,89 +137,275 @@ export function Player() {
                         <meshStandardMaterial color="#c8f7ff" emissive="#c8f7ff" emissiveIntensity={0.3} transparent opacity={0.35} />
                     </mesh>
                     {/* Light */}
-                    <pointLight color="#73eff7" intensity={0.9} distance={2.5} position={[0, 0, 0.1]} />
+                    {quality.extraLights && <pointLight color="#73eff7" intensity={0.9} distance={2.5} position={[0, 0, 0.1]} />}
                 </group>
             )}
+            {/* Shield bubble until it takes a hit or runs out */}
+            {shieldActive && (
+                <mesh position={[0, 0.5, 0]}>
+                    <sphereGeometry args={[0.75, 16, 12]} />
+                    <meshStandardMaterial color="#41a6f6" emissive="#41a6f6" emissiveIntensity={0.4} transparent opacity={0.25} depthWrite={false} />
+                </mesh>
+            )}
+            <HamsterModel look={loadout} />
+        </group>
+    );
+}
+
+// Translucent personal-best hamster driven by the ghost simulation
+export function GhostPlayer() {
+    const group = useRef<Group>(null);
+    const loadout = useLoadout();
+
+    useFrame(() => {
+        const { ghost, loop, status } = useGameStore.getState();
+        if (!group.current) return;
+
+        // Hide once the recorded run has crashed
+        const active = !!ghost && ghost.world.status === 'playing' && (status === 'playing' || status === 'paused');
+        group.current.visible = active;
+        if (!active) return;
+
+        const { player } = ghost.world;
+        group.current.position.x = interpolate(player.prevX, player.x, loop.alpha);
+        group.current.position.y = interpolate(player.prevY, player.y, loop.alpha);
+        applySlidePose(group.current, player);
+    });
+
+    return (
+        <group ref={group} position={[0, 0, 0]} rotation={[0, Math.PI, 0]} visible={false}>
+            <HamsterModel look={loadout} ghost />
+        </group>
+    );
+}
+
+interface HamsterMaterialProps {
+    ghost?: boolean;
+    color: string;
+    roughness?: number;
+    transparent?: boolean;
+    opacity?: number;
+}
+
+// Ghosts render as a flat, translucent cyan silhouette of the same meshes
+function HamsterMaterial({ ghost, color, opacity = 1, ...props }: HamsterMaterialProps) {
+    if (ghost) {
+        return <meshStandardMaterial color="#c8f7ff" emissive="#73eff7" emissiveIntensity={0.4} transparent opacity={0.35 * opacity} depthWrite={false} />;
+    }
+    return <meshStandardMaterial color={color} opacity={opacity} {...props} />;
+}
+
+export type HamsterLook = Pick<Loadout, 'fur' | 'hat' | 'accessory'>;
+
+// Mesh composition shared by the player, its ghost and the shop pedestal
+export function HamsterModel({ look, ghost = false }: { look: HamsterLook; ghost?: boolean }) {
+    const { fur } = look.fur;
+    return (
+        <>
             {/* Hamster Body - rounder, cuter */}
-            <mesh position={[0, 0.45, 0]} castShadow>
+            <mesh position={[0, 0.45, 0]} castShadow={!ghost}>
                 <sphereGeometry args={[0.4, 16, 16]} />
-                <meshStandardMaterial color="#d4a574" roughness={0.8} />
+                <HamsterMaterial ghost={ghost} color={fur.body} roughness={0.8} />
             </mesh>
 
             {/* Head */}
-            <mesh position={[0, 0.85, 0.15]} castShadow>
+            <mesh position={[0, 0.85, 0.15]} castShadow={!ghost}>
                 <sphereGeometry args={[0.3, 16, 16]} />
-                <meshStandardMaterial color="#e8c49a" roughness={0.8} />
+                <HamsterMaterial ghost={ghost} color={fur.head} roughness={0.8} />
             </mesh>
 
             {/* Ears */}
             <mesh position={[-0.18, 1.1, 0.1]}>
                 <sphereGeometry args={[0.1, 8, 8]} />
-                <meshStandardMaterial color="#f0d0b0" />
+                <HamsterMaterial ghost={ghost} color={fur.light} />
             </mesh>
             <mesh position={[0.18, 1.1, 0.1]}>
                 <sphereGeometry args={[0.1, 8, 8]} />
-                <meshStandardMaterial color="#f0d0b0" />
+                <HamsterMaterial ghost={ghost} color={fur.light} />
             </mesh>
 
             {/* Eyes */}
             <mesh position={[-0.1, 0.9, 0.4]}>
                 <sphereGeometry args={[0.06, 8, 8]} />
-                <meshStandardMaterial color="#1a1c2c" />
+                <HamsterMaterial ghost={ghost} color="#1a1c2c" />
             </mesh>
             <mesh position={[0.1, 0.9, 0.4]}>
                 <sphereGeometry args={[0.06, 8, 8]} />
-                <meshStandardMaterial color="#1a1c2c" />
+                <HamsterMaterial ghost={ghost} color="#1a1c2c" />
             </mesh>
             {/* Eye highlights */}
             <mesh position={[-0.08, 0.92, 0.45]}>
                 <sphereGeometry args={[0.02, 6, 6]} />
-                <meshStandardMaterial color="#ffffff" />
+                <HamsterMaterial ghost={ghost} color="#ffffff" />
             </mesh>
             <mesh position={[0.12, 0.92, 0.45]}>
                 <sphereGeometry args={[0.02, 6, 6]} />
-                <meshStandardMaterial color="#ffffff" />
+                <HamsterMaterial ghost={ghost} color="#ffffff" />
             </mesh>
 
             {/* Nose */}
             <mesh position={[0, 0.82, 0.45]}>
                 <sphereGeometry args={[0.05, 8, 8]} />
-                <meshStandardMaterial color="#ffb6c1" />
+                <HamsterMaterial ghost={ghost} color="#ffb6c1" />
             </mesh>
 
             {/* Cheeks */}
             <mesh position={[-0.2, 0.8, 0.3]}>
                 <sphereGeometry args={[0.08, 8, 8]} />
-                <meshStandardMaterial color="#ffb6c1" transparent opacity={0.6} />
+                <HamsterMaterial ghost={ghost} color="#ffb6c1" transparent opacity={0.6} />
             </mesh>
             <mesh position={[0.2, 0.8, 0.3]}>
                 <sphereGeometry args={[0.08, 8, 8]} />
-                <meshStandardMaterial color="#ffb6c1" transparent opacity={0.6} />
+                <HamsterMaterial ghost={ghost} color="#ffb6c1" transparent opacity={0.6} />
             </mesh>
 
             {/* Little legs */}
             <mesh position={[-0.2, 0.15, 0.1]}>
                 <sphereGeometry args={[0.12, 8, 8]} />
-                <meshStandardMaterial color="#c49a6c" />
+                <HamsterMaterial ghost={ghost} color={fur.legs} />
             </mesh>
             <mesh position={[0.2, 0.15, 0.1]}>
                 <sphereGeometry args={[0.12, 8, 8]} />
-                <meshStandardMaterial color="#c49a6c" />
+                <HamsterMaterial ghost={ghost} color={fur.legs} />
             </mesh>
             <mesh position={[-0.15, 0.15, -0.15]}>
                 <sphereGeometry args={[0.1, 8, 8]} />
-                <meshStandardMaterial color="#c49a6c" />
+                <HamsterMaterial ghost={ghost} color={fur.legs} />
             </mesh>
             <mesh position={[0.15, 0.15, -0.15]}>
                 <sphereGeometry args={[0.1, 8, 8]} />
-                <meshStandardMaterial color="#c49a6c" />
+                <HamsterMaterial ghost={ghost} color={fur.legs} />
             </mesh>
 
             {/* Tail */}
             <mesh position={[0, 0.35, -0.35]}>
                 <sphereGeometry args={[0.08, 8, 8]} />
-                <meshStandardMaterial color="#f0d0b0" />
+                <HamsterMaterial ghost={ghost} color={fur.light} />
             </mesh>
-        </group>
+
+            <Hat item={look.hat} ghost={ghost} />
+            <Accessory item={look.accessory} ghost={ghost} />
+        </>
     );
 }
+
+// Hats sit on the crown of the head, between the ears
+function Hat({ item, ghost }: { item: CosmeticOf<'hat'>; ghost: boolean }) {
+    const { hat, color } = item;
+    if (hat === 'cap') {
+        return (
+            <group position={[0, 1.02, 0.15]}>
+                <mesh>
+                    <sphereGeometry args={[0.26, 16, 8, 0, Math.PI * 2, 0, Math.PI / 2]} />
+                    <HamsterMaterial ghost={ghost} color={color} roughness={0.7} />
+                </mesh>
+                <mesh position={[0, 0.02, 0.26]}>
+                    <boxGeometry args={[0.34, 0.03, 0.22]} />
+                    <HamsterMaterial ghost={ghost} color={color} roughness={0.7} />
+                </mesh>
+            </group>
+        );
+    }
+    if (hat === 'beanie') {
+        return (
+            <group position={[0, 0.98, 0.15]}>
+                <mesh>
+                    <sphereGeometry args={[0.29, 16, 8, 0, Math.PI * 2, 0, Math.PI / 2]} />
+                    <HamsterMaterial ghost={ghost} color={color} roughness={0.9} />
+                </mesh>
+                <mesh position={[0, 0.31, 0]}>
+                    <sphereGeometry args={[0.08, 8, 8]} />
+                    <HamsterMaterial ghost={ghost} color="#f4f4f4" roughness={0.9} />
+                </mesh>
+            </group>
+        );
+    }
+    if (hat === 'topHat') {
+        return (
+            <group position={[0, 1.12, 0.15]}>
+                <mesh>
+                    <cylinderGeometry args={[0.3, 0.3, 0.03, 16]} />
+                    <HamsterMaterial ghost={ghost} color={color} roughness={0.5} />
+                </mesh>
+                <mesh position={[0, 0.19, 0]}>
+                    <cylinderGeometry args={[0.18, 0.18, 0.36, 16]} />
+                    <HamsterMaterial ghost={ghost} color={color} roughness={0.5} />
+                </mesh>
+                <mesh position={[0, 0.06, 0]}>
+                    <cylinderGeometry args={[0.185, 0.185, 0.06, 16]} />
+                    <HamsterMaterial ghost={ghost} color="#b13e53" />
+                </mesh>
+            </group>
+        );
+    }
+    if (hat === 'crown') {
+        return (
+            <group position={[0, 1.16, 0.15]}>
+                <mesh>
+                    <cylinderGeometry args={[0.2, 0.22, 0.12, 12, 1, true]} />
+                    <HamsterMaterial ghost={ghost} color={color} roughness={0.3} />
+                </mesh>
+                {[0, 1, 2, 3, 4].map((i) => (
+                    <mesh key={i} position={[Math.sin((i / 5) * Math.PI * 2) * 0.19, 0.12, Math.cos((i / 5) * Math.PI * 2) * 0.19]}>
+                        <coneGeometry args={[0.05, 0.12, 4]} />
+                        <HamsterMaterial ghost={ghost} color={color} roughness={0.3} />
+                    </mesh>
+                ))}
+            </group>
+        );
+    }
+    return null;
+}
+
+function Accessory({ item, ghost }: { item: CosmeticOf<'accessory'>; ghost: boolean }) {
+    const { accessory, color } = item;
+    if (accessory === 'scarf') {
+        return (
+            <group position={[0, 0.64, 0.1]}>
+                <mesh rotation={[Math.PI / 2, 0, 0]}>
+                    <torusGeometry args={[0.28, 0.07, 8, 24]} />
+                    <HamsterMaterial ghost={ghost} color={color} roughness={0.9} />
+                </mesh>
+                <mesh position={[0.14, -0.14, -0.24]} rotation={[0.3, 0, 0.2]}>
+                    <boxGeometry args={[0.1, 0.24, 0.04]} />
+                    <HamsterMaterial ghost={ghost} color={color} roughness={0.9} />
+                </mesh>
+            </group>
+        );
+    }
+    if (accessory === 'bowtie') {
+        return (
+            <group position={[0, 0.62, 0.42]}>
+                <mesh position={[-0.08, 0, 0]} rotation={[0, 0, -Math.PI / 2]}>
+                    <coneGeometry args={[0.07, 0.14, 4]} />
+                    <HamsterMaterial ghost={ghost} color={color} />
+                </mesh>
+                <mesh position={[0.08, 0, 0]} rotation={[0, 0, Math.PI / 2]}>
+                    <coneGeometry args={[0.07, 0.14, 4]} />
+                    <HamsterMaterial ghost={ghost} color={color} />
+                </mesh>
+                <mesh position={[0, 0, 0.01]}>
+                    <sphereGeometry args={[0.04, 8, 8]} />
+                    <HamsterMaterial ghost={ghost} color={color} />
+                </mesh>
+            </group>
+        );
+    }
+    if (accessory === 'glasses') {
+        return (
+            <group position={[0, 0.91, 0.44]}>
+                {[-0.1, 0.1].map((x) => (
+                    <mesh key={x} position={[x, 0, 0]} rotation={[Math.PI / 2, 0, 0]}>
+                        <cylinderGeometry args={[0.08, 0.08, 0.02, 12]} />
+                        <HamsterMaterial ghost={ghost} color={color} roughness={0.2} />
+                    </mesh>
+                ))}
+                <mesh>
+                    <boxGeometry args={[0.08, 0.02, 0.02]} />
+                    <HamsterMaterial ghost={ghost} color={color} />
+                </mesh>
+            </group>
+        );
+    }
+    return null;
+}
@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import { useGameStore } from './GameManager';
+import { POWER_UP_TYPES, POWER_UPS, PowerUpType } from './sim';
+
+const LOOKS: Record<PowerUpType, { icon: string; color: string }> = {
+    chilly: { icon: '🌶️', color: '#e43b44' },
+    magnet: { icon: '🧲', color: '#73eff7' },
+    shield: { icon: '🛡️', color: '#41a6f6' },
+    doubler: { icon: '✖2', color: '#a7f070' },
+    hourglass: { icon: '⏳', color: '#f4b41b' },
+};
+
+// HUD timer for every active power-up, each bar draining until it runs out
+export function PowerUpTimers() {
+    const rows = useRef<Partial<Record<PowerUpType, HTMLDivElement | null>>>({});
+    const bars = useRef<Partial<Record<PowerUpType, HTMLDivElement | null>>>({});
+
+    // Follows the simulation every frame without re-rendering React
+    useEffect(() => {
+        let frame = 0;
+        const update = () => {
+            const remaining = useGameStore.getState().world?.powerUps;
+            POWER_UP_TYPES.forEach((type) => {
+                const left = remaining?.[type] ?? 0;
+                const row = rows.current[type];
+                const bar = bars.current[type];
+                if (row) row.style.display = left > 0 ? 'flex' : 'none';
+                if (bar) bar.style.width = `${(left / POWER_UPS[type].duration) * 100}%`;
+            });
+            frame = requestAnimationFrame(update);
+        };
+        frame = requestAnimationFrame(update);
+        return () => cancelAnimationFrame(frame);
+    }, []);
+
+    return (
+        <div className="flex flex-col gap-1">
+            {POWER_UP_TYPES.map((type) => (
+                <div
+                    key={type}
+                    ref={(row) => { rows.current[type] = row; }}
+                    className="items-center gap-1 w-16"
+                    style={{ display: 'none' }}
+                >
+                    <span className="text-[10px] pixel-text w-5" style={{ color: LOOKS[type].color }}>
+                        {LOOKS[type].icon}
+                    </span>
+                    <div className="flex-1 h-[4px] bg-black/50">
+                        <div
+                            ref={(bar) => { bars.current[type] = bar; }}
+                            className="h-full"
+                            style={{ width: 0, background: LOOKS[type].color }}
+                        />
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
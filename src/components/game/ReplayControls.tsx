@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState, ChangeEvent, CSSProperties } from 'react';
+import { useGameStore } from './GameManager';
+import { StringKey, useStrings } from './i18n';
+import { parseReplay, Replay, ReplayError, ReplayErrorReason, serializeReplay, TICK_RATE } from './sim';
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+// Message shown for each way a replay file can be rejected
+const LOAD_ERRORS: Record<ReplayErrorReason, StringKey> = {
+    notAFile: 'replayNotAFile',
+    corrupted: 'replayCorrupted',
+    version: 'replayVersion',
+};
+
+// Save a replay as a JSON file
+export function downloadReplay(replay: Replay) {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `hamster-run-${replay.seed}-${replay.score}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+const formatTime = (ticks: number) => {
+    const seconds = Math.floor(ticks / TICK_RATE);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Hidden file picker that loads a replay and starts playback
+export function ReplayImportButton({ className, style }: { className?: string; style?: CSSProperties }) {
+    const watchReplay = useGameStore((s) => s.watchReplay);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const t = useStrings();
+    const [error, setError] = useState<StringKey | null>(null);
+
+    const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            watchReplay(parseReplay(await file.text()));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof ReplayError ? LOAD_ERRORS[err.reason] : 'replayLoadFailed');
+        }
+    };
+
+    return (
+        <>
+            <button onClick={() => inputRef.current?.click()} className={className} style={style}>
+                {t.loadReplay}
+            </button>
+            <input ref={inputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+            {error && (
+                <div className="text-[8px] text-[#e43b44] mt-2">
+                    {t[error]}
+                </div>
+            )}
+        </>
+    );
+}
+
+// Playback bar shown while watching a replay
+export function ReplayControls() {
+    const { playback, score, toggleReplayPaused, setReplaySpeed, seekReplay, exitReplay } = useGameStore();
+    const t = useStrings();
+    const [tick, setTick] = useState(0);
+
+    // Poll the sim tick on animation frames so only this bar re-renders during playback
+    useEffect(() => {
+        let frame = 0;
+        const poll = () => {
+            setTick(useGameStore.getState().world?.tick ?? 0);
+            frame = requestAnimationFrame(poll);
+        };
+        frame = requestAnimationFrame(poll);
+        return () => cancelAnimationFrame(frame);
+    }, []);
+
+    if (!playback) return null;
+    const { replay, paused, speed } = playback;
+
+    const cycleSpeed = () => {
+        const next = PLAYBACK_SPEEDS[(PLAYBACK_SPEEDS.indexOf(speed) + 1) % PLAYBACK_SPEEDS.length];
+        setReplaySpeed(next);
+    };
+
+    return (
+        <div className="absolute inset-x-0 top-0 p-4 pointer-events-auto">
+            <div className="flex justify-between items-start mb-2">
+                <div className="score-display pixel-text">
+                    🎬 {score}
+                </div>
+                <button
+                    onClick={exitReplay}
+                    className="pixel-btn p-2 text-[10px]"
+                    style={{ padding: '8px 12px', background: '#e43b44' }}
+                >
+                    {t.exitReplay}
+                </button>
+            </div>
+
+            <div className="pixel-box p-3 flex items-center gap-2">
+                <button
+                    onClick={toggleReplayPaused}
+                    className="pixel-btn text-[10px]"
+                    style={{ padding: '6px 10px' }}
+                >
+                    {paused ? '▶' : '⏸'}
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={replay.ticks}
+                    value={Math.min(tick, replay.ticks)}
+                    onChange={(e) => seekReplay(Number(e.target.value))}
+                    className="flex-1"
+                />
+                <div className="text-[8px] text-[#f4f4f4] w-20 text-right">
+                    {formatTime(tick)} / {formatTime(replay.ticks)}
+                </div>
+                <button
+                    onClick={cycleSpeed}
+                    className="pixel-btn text-[8px]"
+                    style={{ padding: '6px 8px', background: '#333c57' }}
+                >
+                    {speed}x
+                </button>
+                <button
+                    onClick={() => downloadReplay(replay)}
+                    className="pixel-btn text-[8px]"
+                    style={{ padding: '6px 8px', background: '#333c57' }}
+                >
+                    💾
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,208 @@
+import { ChangeEvent, ReactNode, useRef, useState } from 'react';
+import { languageName, StringKey, useStrings } from './i18n';
+import { encodeProfile, parseProfile, Profile, ProfileError, ProfileErrorReason, serializeProfile, useProfileStore } from './profile';
+import { QualitySetting, qualityLevel, useQualityStore } from './quality';
+import { CONTROL_SCHEMES, LANGUAGES, Settings, useSettingsStore } from './settings';
+
+const QUALITY_OPTIONS: QualitySetting[] = ['auto', 'low', 'medium', 'high'];
+
+const LOAD_ERRORS: Record<ProfileErrorReason, StringKey> = {
+    notAFile: 'profileNotAFile',
+    corrupted: 'profileCorrupted',
+    version: 'profileVersion',
+};
+
+const next = <T,>(options: readonly T[], current: T) => options[(options.indexOf(current) + 1) % options.length];
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+    return (
+        <div className="flex items-center justify-between gap-3 mb-3">
+            <span className="text-[8px] text-[#f4f4f4] text-left">{label}</span>
+            {children}
+        </div>
+    );
+}
+
+function Cycle({ label, onClick }: { label: string; onClick: () => void }) {
+    return (
+        <button
+            onClick={onClick}
+            className="pixel-btn text-[8px] min-w-[96px]"
+            style={{ background: '#333c57', padding: '6px 8px' }}
+        >
+            {label}
+        </button>
+    );
+}
+
+function Volume({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+    return (
+        <input
+            type="range"
+            min={0}
+            max={100}
+            step={10}
+            value={Math.round(value * 100)}
+            onChange={(e) => onChange(Number(e.target.value) / 100)}
+            className="w-[96px] accent-[#f4b41b]"
+        />
+    );
+}
+
+// Save a profile as a JSON file
+function downloadProfile(profile: Profile) {
+    const blob = new Blob([serializeProfile(profile)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `hamster-profile-${profile.updatedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// Moves progress between browsers as a file or a pasted text code
+function ProfileTransfer() {
+    const { profile, replace } = useProfileStore();
+    const t = useStrings();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [code, setCode] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ text: StringKey; error: boolean } | null>(null);
+
+    const load = (text: string) => {
+        try {
+            replace(parseProfile(text));
+            setCode(null);
+            setMessage({ text: 'profileLoaded', error: false });
+        } catch (err) {
+            setMessage({ text: err instanceof ProfileError ? LOAD_ERRORS[err.reason] : 'profileLoadFailed', error: true });
+        }
+    };
+
+    const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) load(await file.text());
+    };
+
+    const handleCopy = () => {
+        navigator.clipboard?.writeText(encodeProfile(profile)).then(() => setMessage({ text: 'copied', error: false })).catch(() => { });
+    };
+
+    const button = 'pixel-btn flex-1 text-[8px]';
+    const style = { padding: '6px 4px', background: '#333c57' };
+
+    return (
+        <div className="mt-4">
+            <div className="text-[8px] text-[#f4f4f4] text-left mb-2">{t.profile}</div>
+            <div className="flex gap-2 mb-2">
+                <button onClick={() => downloadProfile(profile)} className={button} style={style}>{t.export}</button>
+                <button onClick={() => inputRef.current?.click()} className={button} style={style}>{t.importFile}</button>
+            </div>
+            <div className="flex gap-2">
+                <button onClick={handleCopy} className={button} style={style}>{t.copyCode}</button>
+                <button onClick={() => setCode(code === null ? '' : null)} className={button} style={style}>{t.pasteCode}</button>
+            </div>
+            <input ref={inputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+            {code !== null && (
+                <div className="mt-2">
+                    <textarea
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        rows={3}
+                        className="w-full text-[8px] p-1 bg-[#1a1c2c] text-[#f4f4f4] border border-[#333c57]"
+                    />
+                    <button onClick={() => load(code)} className={`${button} w-full`} style={{ padding: '6px 4px' }}>
+                        {t.loadCode}
+                    </button>
+                </div>
+            )}
+            {message && (
+                <div className="text-[8px] mt-2" style={{ color: message.error ? '#e43b44' : '#73eff7' }}>
+                    {t[message.text]}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Every player setting; changes apply and persist immediately
+export function SettingsPanel({ onClose }: { onClose: () => void }) {
+    const settings = useSettingsStore();
+    const autoLevel = useQualityStore((s) => s.autoLevel);
+    const resetAuto = useQualityStore((s) => s.resetAuto);
+    const t = useStrings();
+    const { update } = settings;
+
+    const toggle = (key: 'haptics' | 'screenShake') => (
+        <Cycle label={settings[key] ? t.on : t.off} onClick={() => update({ [key]: !settings[key] } as Partial<Settings>)} />
+    );
+
+    const qualityLabel = settings.quality === 'auto'
+        ? `${t.auto} (${t[qualityLevel('auto', autoLevel)]})`
+        : t[settings.quality];
+
+    const setQuality = () => {
+        const quality = next(QUALITY_OPTIONS, settings.quality);
+        if (quality === 'auto') resetAuto();
+        update({ quality });
+    };
+
+    return (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80 pointer-events-auto z-10">
+            <div className="pixel-box p-6 text-center max-w-xs w-full mx-4 max-h-full overflow-y-auto">
+                <h2 className="text-lg text-[#73eff7] pixel-text mb-6">
+                    {t.settings}
+                </h2>
+
+                <Row label={t.music}>
+                    <Volume value={settings.musicVolume} onChange={(musicVolume) => update({ musicVolume })} />
+                </Row>
+                <Row label={t.effects}>
+                    <Volume value={settings.sfxVolume} onChange={(sfxVolume) => update({ sfxVolume })} />
+                </Row>
+                <Row label={t.sound}>
+                    <Cycle label={settings.muted ? t.off : t.on} onClick={() => update({ muted: !settings.muted })} />
+                </Row>
+                <Row label={t.haptics}>{toggle('haptics')}</Row>
+                <Row label={t.screenShake}>{toggle('screenShake')}</Row>
+                <Row label={t.quality}>
+                    <Cycle label={qualityLabel} onClick={setQuality} />
+                </Row>
+                <Row label={t.controls}>
+                    <Cycle
+                        label={t[settings.controlScheme]}
+                        onClick={() => update({ controlScheme: next(CONTROL_SCHEMES, settings.controlScheme) })}
+                    />
+                </Row>
+                <Row label={t.language}>
+                    <Cycle
+                        label={languageName(settings.language)}
+                        onClick={() => update({ language: next(LANGUAGES, settings.language) })}
+                    />
+                </Row>
+
+                <ProfileTransfer />
+
+                <div className="flex gap-2 mt-6">
+                    <button
+                        onClick={() => {
+                            resetAuto();
+                            settings.reset();
+                        }}
+                        className="pixel-btn flex-1 text-[8px]"
+                        style={{ padding: '8px 4px', background: '#333c57' }}
+                    >
+                        {t.resetDefaults}
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="pixel-btn pixel-btn-success flex-1 text-[8px]"
+                        style={{ padding: '8px 4px' }}
+                    >
+                        {t.close}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,83 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { InstancedMesh, MeshStandardMaterial, Object3D, TetrahedronGeometry } from 'three';
+import { useGameStore } from './GameManager';
+import { currentQuality } from './quality';
+import { WorldState } from './sim';
+
+// Shards thrown out each time a power-up absorbs a hit
+const SHARD_COUNT = 16;
+const LIFETIME = 0.6; // seconds
+const GRAVITY = 9;
+
+const geometry = new TetrahedronGeometry(0.12, 0);
+const material = new MeshStandardMaterial({ color: '#41a6f6', emissive: '#73eff7', emissiveIntensity: 0.5, transparent: true, opacity: 0.85, flatShading: true });
+
+// Scratch object reused every frame
+const placement = new Object3D();
+
+// The shield bursting into shards where it stopped a hazard
+export function Shatter() {
+    const mesh = useRef<InstancedMesh>(null);
+    // Per shard: x, y, z, velocity x, y, z and age
+    const shards = useRef(new Float32Array(SHARD_COUNT * 7).fill(LIFETIME));
+    const seen = useRef<{ world: WorldState | null; absorbed: number }>({ world: null, absorbed: 0 });
+
+    useFrame((_, delta) => {
+        const { world, status, timeScale } = useGameStore.getState();
+        if (!mesh.current) return;
+        const s = shards.current;
+
+        // A new run or a replay seek starts clean rather than bursting for hits already taken
+        if (world !== seen.current.world) {
+            seen.current = { world, absorbed: world?.stats.hitsAbsorbed ?? 0 };
+            s.fill(LIFETIME);
+        }
+        if (!world) {
+            mesh.current.visible = false;
+            return;
+        }
+        mesh.current.visible = true;
+
+        if (world.stats.hitsAbsorbed > seen.current.absorbed) {
+            seen.current.absorbed = world.stats.hitsAbsorbed;
+            const shown = Math.max(4, Math.round(SHARD_COUNT * currentQuality().particles));
+            for (let i = 0; i < SHARD_COUNT; i++) {
+                const d = i * 7;
+                const angle = (i / SHARD_COUNT) * Math.PI * 2;
+                s[d] = world.player.x;
+                s[d + 1] = world.player.y + 0.5;
+                s[d + 2] = -0.5;
+                s[d + 3] = Math.cos(angle) * 3;
+                s[d + 4] = 2 + (i % 3);
+                s[d + 5] = Math.sin(angle) * 2;
+                s[d + 6] = i < shown ? 0 : LIFETIME;
+            }
+        }
+
+        // Shards hang still while paused and drift back with the track
+        const dt = status === 'playing' || status === 'replay' ? delta * timeScale : 0;
+        const scroll = world.speed * 60 * dt;
+
+        let count = 0;
+        for (let i = 0; i < SHARD_COUNT; i++) {
+            const d = i * 7;
+            if (s[d + 6] >= LIFETIME) continue;
+            s[d + 6] += dt;
+            s[d + 4] -= GRAVITY * dt;
+            s[d] += s[d + 3] * dt;
+            s[d + 1] = Math.max(0, s[d + 1] + s[d + 4] * dt);
+            s[d + 2] += s[d + 5] * dt + scroll;
+
+            placement.position.set(s[d], s[d + 1], s[d + 2]);
+            placement.rotation.set(s[d + 6] * 8, s[d + 6] * 6, 0);
+            placement.scale.setScalar(1 - s[d + 6] / LIFETIME);
+            placement.updateMatrix();
+            mesh.current.setMatrixAt(count++, placement.matrix);
+        }
+        mesh.current.count = count;
+        mesh.current.instanceMatrix.needsUpdate = true;
+    });
+
+    return <instancedMesh ref={mesh} args={[geometry, material, SHARD_COUNT]} frustumCulled={false} />;
+}
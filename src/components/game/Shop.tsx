@@ -0,0 +1,174 @@
+import { useRef, useState } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { Group } from 'three';
+import { BIOMES } from './biomes';
+import {
+    buyCosmetic,
+    Cosmetic,
+    cosmeticById,
+    COSMETICS,
+    COSMETIC_SLOTS,
+    CosmeticSlot,
+    equipCosmetic,
+    isOwned,
+    Loadout,
+    loadoutOf,
+} from './cosmetics';
+import { StringKey, useStrings } from './i18n';
+import { HamsterModel } from './Player';
+import { useProfileStore } from './profile';
+
+const SLOT_LABELS: Record<CosmeticSlot, StringKey> = {
+    fur: 'slotFur',
+    hat: 'slotHat',
+    accessory: 'slotAccessory',
+    trail: 'slotTrail',
+    obstacles: 'slotObstacles',
+};
+
+// Turns slowly so every side of the outfit shows
+function PedestalModel({ look, slot }: { look: Loadout; slot: CosmeticSlot }) {
+    const turntable = useRef<Group>(null);
+    const orbit = useRef<Group>(null);
+
+    useFrame((_, delta) => {
+        if (turntable.current) turntable.current.rotation.y += delta * 0.8;
+        if (orbit.current) orbit.current.rotation.y -= delta * 2;
+    });
+
+    const { trail } = look;
+    const skin = look.obstacles.skin ?? BIOMES[0].skin;
+
+    return (
+        <group ref={turntable}>
+            {/* Pedestal */}
+            <mesh position={[0, -0.1, 0]} receiveShadow>
+                <cylinderGeometry args={[0.75, 0.85, 0.2, 24]} />
+                <meshStandardMaterial color="#333c57" roughness={0.6} />
+            </mesh>
+            <HamsterModel look={look} />
+
+            {/* Trails circle the hamster instead of streaming behind it */}
+            {slot === 'trail' && trail.trail && (
+                <group ref={orbit}>
+                    {[0, 1, 2, 3, 4, 5].map((i) => (
+                        <mesh key={i} position={[Math.sin((i / 6) * Math.PI * 2) * 0.65, 0.3 + (i % 2) * 0.2, Math.cos((i / 6) * Math.PI * 2) * 0.65]}>
+                            {trail.trail === 'bubble' ? <sphereGeometry args={[0.07, 8, 6]} /> : trail.trail === 'sparkle' ? <octahedronGeometry args={[0.07, 0]} /> : <dodecahedronGeometry args={[0.08, 0]} />}
+                            <meshStandardMaterial color={trail.color} emissive={trail.color} emissiveIntensity={0.6} transparent opacity={0.8} />
+                        </mesh>
+                    ))}
+                </group>
+            )}
+
+            {/* A rock in the chosen obstacle theme */}
+            {slot === 'obstacles' && (
+                <group position={[0.55, 0.15, 0.1]}>
+                    <mesh>
+                        <dodecahedronGeometry args={[0.25, 0]} />
+                        <meshStandardMaterial color={skin.rock} roughness={0.9} flatShading />
+                    </mesh>
+                    <mesh position={[0, 0.38, 0]}>
+                        <coneGeometry args={[0.08, 0.16, 4]} />
+                        <meshStandardMaterial color={look.obstacles.danger} emissive={look.obstacles.danger} emissiveIntensity={0.3} />
+                    </mesh>
+                </group>
+            )}
+        </group>
+    );
+}
+
+// Spends banked coins on cosmetics; a tapped item is tried on before it is bought
+export function Shop({ onClose }: { onClose: () => void }) {
+    const profile = useProfileStore((s) => s.profile);
+    const t = useStrings();
+    const [slot, setSlot] = useState<CosmeticSlot>('fur');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    const loadout = loadoutOf(profile);
+    const selected: Cosmetic = (selectedId && cosmeticById(selectedId)) || loadout[slot];
+    const preview = { ...loadout, [selected.slot]: selected } as Loadout;
+    const owned = isOwned(profile, selected);
+    const equipped = loadout[selected.slot].id === selected.id;
+    const affordable = profile.currency >= selected.price;
+
+    const chooseSlot = (next: CosmeticSlot) => {
+        setSlot(next);
+        setSelectedId(null);
+    };
+
+    const handleAction = () => {
+        if (owned) equipCosmetic(selected.id);
+        else buyCosmetic(selected.id);
+    };
+
+    return (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80 pointer-events-auto z-10">
+            <div className="pixel-box p-6 text-center max-w-xs w-full mx-4 max-h-full overflow-y-auto">
+                <h2 className="text-lg text-[#73eff7] pixel-text mb-2">
+                    {t.shop}
+                </h2>
+                <div className="text-[10px] text-[#f4b41b] mb-3 pixel-text">
+                    🪙 {profile.currency}
+                </div>
+
+                <div className="h-40 mb-3 bg-[#1a1c2c]">
+                    <Canvas camera={{ position: [0, 1.1, 3], fov: 35 }}>
+                        <ambientLight intensity={0.6} />
+                        <directionalLight position={[2, 4, 3]} intensity={1.1} />
+                        <group position={[0, -0.45, 0]}>
+                            <PedestalModel look={preview} slot={slot} />
+                        </group>
+                    </Canvas>
+                </div>
+
+                <div className="flex flex-wrap gap-1 mb-3">
+                    {COSMETIC_SLOTS.map((s) => (
+                        <button
+                            key={s}
+                            onClick={() => chooseSlot(s)}
+                            className="pixel-btn flex-1 text-[8px]"
+                            style={{ padding: '6px 4px', background: s === slot ? '#f4b41b' : '#333c57' }}
+                        >
+                            {t[SLOT_LABELS[s]]}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 mb-3">
+                    {COSMETICS.filter((c) => c.slot === slot).map((c) => (
+                        <button
+                            key={c.id}
+                            onClick={() => setSelectedId(c.id)}
+                            className="flex flex-col items-center p-2 text-[8px] border-2"
+                            style={{
+                                borderColor: c.id === selected.id ? '#73eff7' : '#333c57',
+                                background: loadout[slot].id === c.id ? '#29366f' : '#1a1c2c',
+                            }}
+                        >
+                            <span className="text-lg">{c.icon}</span>
+                            <span className="text-[#f4f4f4] mt-1">{t[c.name]}</span>
+                            <span className="text-[#f4b41b] mt-1">{isOwned(profile, c) ? '✔' : `🪙 ${c.price}`}</span>
+                        </button>
+                    ))}
+                </div>
+
+                <button
+                    onClick={handleAction}
+                    disabled={equipped || (!owned && !affordable)}
+                    className="pixel-btn pixel-btn-success w-full text-[8px] mb-2"
+                    style={{ padding: '8px 4px', opacity: equipped || (!owned && !affordable) ? 0.6 : 1 }}
+                >
+                    {equipped ? t.equipped : owned ? t.equip : affordable ? `${t.buy} 🪙 ${selected.price}` : t.notEnoughCoins}
+                </button>
+
+                <button
+                    onClick={onClose}
+                    className="pixel-btn w-full text-[8px]"
+                    style={{ padding: '8px 4px', background: '#333c57' }}
+                >
+                    {t.close}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,160 @@
+import { ReactNode } from 'react';
+import { StringKey, useStrings } from './i18n';
+import { useProfileStore } from './profile';
+import { ObstacleType, POWER_UP_TYPES, PowerUpType, TICK_RATE, WorldState } from './sim';
+
+// Hazards a run can end on, with the label for each
+const CAUSES: Partial<Record<ObstacleType, StringKey>> = {
+    rock: 'hitRock',
+    branch: 'hitBranch',
+    log: 'hitLog',
+};
+
+const POWER_UP_LABELS: Record<PowerUpType, StringKey> = {
+    chilly: 'chillies',
+    magnet: 'magnets',
+    shield: 'shields',
+    doubler: 'doublers',
+    hourglass: 'hourglasses',
+};
+
+const formatTime = (seconds: number) => {
+    const whole = Math.floor(seconds);
+    const hours = Math.floor(whole / 3600);
+    const clock = `${Math.floor(whole / 60) % 60}:${String(whole % 60).padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${clock.padStart(5, '0')}` : clock;
+};
+
+const formatDistance = (distance: number) => `${Math.round(distance)}m`;
+
+// World units per tick as units per second
+const formatSpeed = (speed: number) => `${(speed * TICK_RATE).toFixed(1)}m/s`;
+
+function Line({ label, children }: { label: string; children: ReactNode }) {
+    return (
+        <div className="flex justify-between gap-3 text-[8px] mb-1">
+            <span className="text-[#f4f4f4] text-left">{label}</span>
+            <span className="text-[#f4b41b]">{children}</span>
+        </div>
+    );
+}
+
+// What happened in the run that just ended, shown on the game over screen
+export function RunSummary({ score, world }: { score: number; world: WorldState | null }) {
+    const t = useStrings();
+    const wallet = useProfileStore((s) => s.profile.currency);
+    const stats = world?.stats;
+    const cause = stats?.causeOfDeath ? CAUSES[stats.causeOfDeath] : undefined;
+
+    return (
+        <div className="mb-4">
+            <div className="text-[14px] text-[#f4f4f4] mb-2 pixel-text">
+                {t.score}
+            </div>
+            <div className="text-2xl text-[#f4b41b] mb-3 pixel-text">
+                {score}
+            </div>
+            {world && (
+                <div className="border-2 border-[#333c57] px-3 py-2 mb-2">
+                    <Line label={t.pointsDistance}>{world.breakdown.distance}</Line>
+                    <Line label={t.pointsCoins}>{world.breakdown.coins}</Line>
+                    <Line label={t.pointsPowerUps}>{world.breakdown.powerUps}</Line>
+                    <Line label={t.pointsNearMisses}>{world.breakdown.nearMisses}</Line>
+                    <Line label={t.pointsScoreBoost}>{world.breakdown.scoreBoost}</Line>
+                    <Line label={t.pointsCombo}>{world.breakdown.combo}</Line>
+                    <Line label={t.bestCombo}>✖{world.stats.bestCombo}</Line>
+                </div>
+            )}
+            {stats && (
+                <div className="border-2 border-[#333c57] px-3 py-2">
+                    <Line label={t.distance}>{formatDistance(world.distance)}</Line>
+                    <Line label={t.timeAlive}>{formatTime(world.time)}</Line>
+                    <Line label={t.coins}>{stats.coins}</Line>
+                    {POWER_UP_TYPES.map((type) => (
+                        <Line key={type} label={t[POWER_UP_LABELS[type]]}>{stats.powerUps[type]}</Line>
+                    ))}
+                    <Line label={t.jumps}>{stats.jumps}</Line>
+                    <Line label={t.slides}>{stats.slides}</Line>
+                    <Line label={t.laneChanges}>{stats.laneChanges}</Line>
+                    <Line label={t.nearMisses}>{stats.nearMisses}</Line>
+                    <Line label={t.hitsAbsorbed}>{stats.hitsAbsorbed}</Line>
+                    <Line label={t.maxSpeed}>{formatSpeed(stats.maxSpeed)}</Line>
+                    <Line label={t.wallet}>🪙 {wallet}</Line>
+                    {cause && <Line label={t.causeOfDeath}>{t[cause]}</Line>}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Bars for the most recent scores, oldest on the left
+function ScoreHistogram({ scores }: { scores: number[] }) {
+    const top = Math.max(1, ...scores);
+    return (
+        <div className="flex items-end gap-[2px] h-16 px-1 border-b border-[#333c57]">
+            {scores.map((score, i) => (
+                <div
+                    key={i}
+                    title={String(score)}
+                    className="flex-1"
+                    style={{
+                        height: `${Math.max(4, (score / top) * 100)}%`,
+                        background: score === top ? '#73eff7' : '#f4b41b',
+                    }}
+                />
+            ))}
+        </div>
+    );
+}
+
+// Lifetime totals from the player profile, opened from the start screen
+export function StatsPanel({ onClose }: { onClose: () => void }) {
+    const stats = useProfileStore((s) => s.profile.stats);
+    const t = useStrings();
+    const deaths = Object.entries(CAUSES).filter(([type]) => stats.deaths[type]);
+
+    return (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80 pointer-events-auto z-10">
+            <div className="pixel-box p-6 text-center max-w-xs w-full mx-4 max-h-full overflow-y-auto">
+                <h2 className="text-lg text-[#73eff7] pixel-text mb-6">
+                    {t.stats}
+                </h2>
+
+                <Line label={t.runs}>{stats.runs}</Line>
+                <Line label={t.totalScore}>{stats.totalScore}</Line>
+                <Line label={t.averageScore}>{stats.runs ? Math.round(stats.totalScore / stats.runs) : 0}</Line>
+                <Line label={t.distance}>{formatDistance(stats.distance)}</Line>
+                <Line label={t.longestDistance}>{formatDistance(stats.bestDistance)}</Line>
+                <Line label={t.playTime}>{formatTime(stats.playTime)}</Line>
+                <Line label={t.longestRun}>{formatTime(stats.longestRun)}</Line>
+                <Line label={t.coins}>{stats.coins}</Line>
+                {POWER_UP_TYPES.map((type) => (
+                    <Line key={type} label={t[POWER_UP_LABELS[type]]}>{stats.powerUps[type] ?? 0}</Line>
+                ))}
+                <Line label={t.jumps}>{stats.jumps}</Line>
+                <Line label={t.slides}>{stats.slides}</Line>
+                <Line label={t.laneChanges}>{stats.laneChanges}</Line>
+                <Line label={t.nearMisses}>{stats.nearMisses}</Line>
+                <Line label={t.maxSpeed}>{formatSpeed(stats.maxSpeed)}</Line>
+                {deaths.map(([type, key]) => (
+                    <Line key={type} label={`${t.causeOfDeath} ${t[key as StringKey]}`}>{stats.deaths[type]}</Line>
+                ))}
+
+                <div className="text-[8px] text-[#f4f4f4] text-left mt-4 mb-2">{t.recentScores}</div>
+                {stats.recentScores.length > 0 ? (
+                    <ScoreHistogram scores={stats.recentScores} />
+                ) : (
+                    <div className="text-[8px] text-[#f4f4f4] opacity-70">{t.noRunsYet}</div>
+                )}
+
+                <button
+                    onClick={onClose}
+                    className="pixel-btn pixel-btn-success w-full text-[8px] mt-6"
+                    style={{ padding: '8px 4px' }}
+                >
+                    {t.close}
+                </button>
+            </div>
+        </div>
+    );
+}
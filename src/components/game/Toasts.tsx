@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { fill, useStrings } from './i18n';
+import { MAX_VISIBLE_TOASTS, Toast, TOAST_DURATION, useToastStore } from './toasts';
+
+function ToastCard({ toast }: { toast: Toast }) {
+    const dismiss = useToastStore((s) => s.dismiss);
+    const t = useStrings();
+
+    useEffect(() => {
+        const id = setTimeout(() => dismiss(toast.id), TOAST_DURATION * 1000);
+        return () => clearTimeout(id);
+    }, [toast.id, dismiss]);
+
+    return (
+        <div className="pixel-box toast-in flex items-center gap-3 px-3 py-2 text-left w-full">
+            <span className="text-xl">{toast.icon}</span>
+            <div>
+                <div className="text-[8px] text-[#73eff7] pixel-text">{t[toast.title]}</div>
+                <div className="text-[8px] text-[#f4f4f4] mt-1">{fill(t[toast.text], toast.count)}</div>
+            </div>
+        </div>
+    );
+}
+
+// Stack of the oldest pending toasts, top center above every screen
+export function Toasts() {
+    const toasts = useToastStore((s) => s.toasts).slice(0, MAX_VISIBLE_TOASTS);
+
+    return (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 w-64 max-w-[90%] flex flex-col gap-2 pointer-events-none z-20">
+            {toasts.map((toast) => (
+                <ToastCard key={toast.id} toast={toast} />
+            ))}
+        </div>
+    );
+}
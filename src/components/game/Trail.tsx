@@ -0,0 +1,105 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import {
+    BufferGeometry,
+    DodecahedronGeometry,
+    InstancedMesh,
+    MeshStandardMaterial,
+    Object3D,
+    OctahedronGeometry,
+    SphereGeometry,
+} from 'three';
+import { currentLoadout, TrailShape } from './cosmetics';
+import { useGameStore } from './GameManager';
+import { currentQuality } from './quality';
+import { interpolate } from './sim';
+
+// Puffs alive at once at full quality; one is let out every EMIT_INTERVAL seconds of play
+const TRAIL_SIZE = 40;
+const EMIT_INTERVAL = 0.04;
+const LIFETIME = TRAIL_SIZE * EMIT_INTERVAL; // seconds
+const MIN_PUFFS = 8; // the sparsest trail, still readable as one
+
+interface TrailStyle {
+    geometry: BufferGeometry;
+    size: number; // scale of a fresh puff
+    rise: number; // upward drift, units per second
+    spin: number; // radians per second
+}
+
+const STYLES: Record<TrailShape, TrailStyle> = {
+    cloud: { geometry: new DodecahedronGeometry(0.12, 0), size: 1, rise: 0.4, spin: 1 },
+    bubble: { geometry: new SphereGeometry(0.09, 8, 6), size: 1, rise: 0.8, spin: 0 },
+    sparkle: { geometry: new OctahedronGeometry(0.08, 0), size: 1.2, rise: 0.2, spin: 6 },
+};
+
+const material = new MeshStandardMaterial({ transparent: true, opacity: 0.8, emissiveIntensity: 0.6, depthWrite: false });
+
+// Scratch object reused every frame
+const placement = new Object3D();
+
+// The equipped trail: puffs let out behind the hamster that scroll away with the track
+export function Trail() {
+    const mesh = useRef<InstancedMesh>(null);
+    // Ring buffer of puffs: x, y, z and age
+    const puffs = useRef(new Float32Array(TRAIL_SIZE * 4).fill(LIFETIME));
+    const next = useRef(0);
+    const sinceEmit = useRef(0);
+    const shapeRef = useRef<TrailShape | null>(null);
+
+    useFrame((_, delta) => {
+        const { world, loop, status, timeScale } = useGameStore.getState();
+        const { trail, color } = currentLoadout().trail;
+        if (!mesh.current) return;
+        const shown = !!trail && !!world;
+        mesh.current.visible = shown;
+        if (!shown) return;
+
+        const style = STYLES[trail];
+        if (shapeRef.current !== trail) {
+            shapeRef.current = trail;
+            mesh.current.geometry = style.geometry;
+            puffs.current.fill(LIFETIME);
+        }
+        material.color.set(color);
+        material.emissive.set(color);
+
+        // Puffs hang still while paused, like everything else, and stop coming once the hamster has crashed
+        const dt = status === 'playing' || status === 'replay' ? delta * timeScale : 0;
+        const scroll = world.speed * 60 * dt;
+        const p = puffs.current;
+        // Lower quality spaces the puffs out; the trail stays as long, just sparser
+        const interval = LIFETIME / Math.max(MIN_PUFFS, Math.round(TRAIL_SIZE * currentQuality().particles));
+
+        if (world.status === 'playing') sinceEmit.current += dt;
+        while (sinceEmit.current >= interval) {
+            sinceEmit.current -= interval;
+            const i = next.current * 4;
+            p[i] = interpolate(world.player.prevX, world.player.x, loop.alpha);
+            p[i + 1] = interpolate(world.player.prevY, world.player.y, loop.alpha) + 0.3;
+            p[i + 2] = 0.4;
+            p[i + 3] = 0;
+            next.current = (next.current + 1) % TRAIL_SIZE;
+        }
+
+        let count = 0;
+        for (let i = 0; i < TRAIL_SIZE; i++) {
+            const d = i * 4;
+            p[d + 1] += style.rise * dt;
+            p[d + 2] += scroll;
+            p[d + 3] += dt;
+            if (p[d + 3] >= LIFETIME) continue;
+
+            const life = 1 - p[d + 3] / LIFETIME;
+            placement.position.set(p[d], p[d + 1], p[d + 2]);
+            placement.rotation.set(0, p[d + 3] * style.spin, p[d + 3] * style.spin);
+            placement.scale.setScalar(style.size * life);
+            placement.updateMatrix();
+            mesh.current.setMatrixAt(count++, placement.matrix);
+        }
+        mesh.current.count = count;
+        mesh.current.instanceMatrix.needsUpdate = true;
+    });
+
+    return <instancedMesh ref={mesh} args={[STYLES.cloud.geometry, material, TRAIL_SIZE]} frustumCulled={false} />;
+}
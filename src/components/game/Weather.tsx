@@ -0,0 +1,104 @@
+import { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { BufferAttribute, BufferGeometry, LineSegments, Points } from 'three';
+import { weatherAt, WeatherKind } from './atmosphere';
+import { useGameStore } from './GameManager';
+import { currentQuality } from './quality';
+import { createRng } from './sim';
+
+// Box around the camera that particles fall through, wrapping at its edges
+const AREA = { halfWidth: 8, top: 10, near: 8, far: -35 };
+
+interface Precipitation {
+    count: number; // particles at full intensity
+    fall: number; // units per second
+    sway: number; // sideways drift amplitude
+    streak: number; // length of each drop's line, 0 for round flakes
+}
+
+const PRECIPITATION: Record<Exclude<WeatherKind, 'clear'>, Precipitation> = {
+    rain: { count: 700, fall: 22, sway: 0, streak: 0.5 },
+    snow: { count: 500, fall: 2.5, sway: 0.6, streak: 0 },
+};
+
+// Falling rain or snow, thinned out as the weather builds up and clears and on lower quality
+export function Weather() {
+    return (
+        <>
+            <Particles kind="rain" />
+            <Particles kind="snow" />
+        </>
+    );
+}
+
+function Particles({ kind }: { kind: keyof typeof PRECIPITATION }) {
+    const { count, fall, sway, streak } = PRECIPITATION[kind];
+    const lines = useRef<LineSegments>(null);
+    const points = useRef<Points>(null);
+    const clock = useRef(0);
+
+    // Drop positions (x, y, z) plus each drop's sway phase; fixed layout, since only the amount is seed-driven
+    const { geometry, drops } = useMemo(() => {
+        const rng = createRng(kind === 'rain' ? 1 : 2);
+        const drops = new Float32Array(count * 4);
+        for (let i = 0; i < count; i++) {
+            drops[i * 4] = rng.range(-AREA.halfWidth, AREA.halfWidth);
+            drops[i * 4 + 1] = rng.range(0, AREA.top);
+            drops[i * 4 + 2] = rng.range(AREA.far, AREA.near);
+            drops[i * 4 + 3] = rng.range(0, Math.PI * 2);
+        }
+        const geometry = new BufferGeometry();
+        geometry.setAttribute('position', new BufferAttribute(new Float32Array(count * 3 * (streak > 0 ? 2 : 1)), 3));
+        return { geometry, drops };
+    }, [count, kind, streak]);
+
+    useFrame((_, delta) => {
+        const { world, seed, status, timeScale } = useGameStore.getState();
+        const weather = weatherAt(seed, world?.distance ?? 0);
+        const shown = weather.kind === kind ? Math.floor(count * weather.intensity * currentQuality().particles) : 0;
+        const object = lines.current ?? points.current;
+        if (!object) return;
+        object.visible = shown > 0;
+        if (shown === 0) return;
+
+        // Particles hang still while paused, like everything else, and slow down with the run
+        const moving = status === 'playing' || status === 'replay';
+        const dt = moving ? delta * timeScale : 0;
+        const scroll = world ? world.speed * 60 * dt : 0;
+        clock.current += dt;
+
+        const positions = geometry.getAttribute('position') as BufferAttribute;
+        for (let i = 0; i < shown; i++) {
+            const d = i * 4;
+            drops[d + 1] -= fall * dt;
+            drops[d + 2] += scroll;
+            if (drops[d + 1] < 0) drops[d + 1] += AREA.top;
+            if (drops[d + 2] > AREA.near) drops[d + 2] -= AREA.near - AREA.far;
+
+            const x = drops[d] + Math.sin(clock.current + drops[d + 3]) * sway;
+            if (streak > 0) {
+                // Each drop is a short line leaning into the run
+                positions.setXYZ(i * 2, x, drops[d + 1], drops[d + 2]);
+                positions.setXYZ(i * 2 + 1, x, drops[d + 1] + streak, drops[d + 2] - streak * 0.3);
+            } else {
+                positions.setXYZ(i, x, drops[d + 1], drops[d + 2]);
+            }
+        }
+        positions.needsUpdate = true;
+        geometry.setDrawRange(0, streak > 0 ? shown * 2 : shown);
+    });
+
+    if (streak > 0) {
+        return (
+            <lineSegments ref={lines} geometry={geometry} frustumCulled={false}>
+                <lineBasicMaterial color="#a8c8ff" transparent opacity={0.5} />
+            </lineSegments>
+        );
+    }
+
+    return (
+        <points ref={points} geometry={geometry} frustumCulled={false}>
+            <pointsMaterial color="#ffffff" size={0.12} transparent opacity={0.85} />
+        </points>
+    );
+}
@@ -1,135 +1,394 @@
-import { useRef, useMemo } from 'react';
-import { useFrame, extend } from '@react-three/fiber';
-import { Mesh, RepeatWrapping, TextureLoader } from 'three';
+import { useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import {
+    AmbientLight,
+    BoxGeometry,
+    BufferGeometry,
+    Color,
+    ConeGeometry,
+    CylinderGeometry,
+    DirectionalLight,
+    DodecahedronGeometry,
+    Fog,
+    HemisphereLight,
+    IcosahedronGeometry,
+    InstancedMesh,
+    Material,
+    Matrix4,
+    MeshBasicMaterial,
+    MeshStandardMaterial,
+    MeshStandardMaterialParameters,
+    PlaneGeometry,
+    SphereGeometry,
+} from 'three';
+import { Conditions, lightLevel, shade, timeOfDayAt, weatherAt, wetness } from './atmosphere';
+import { Biome, BiomeBlend, biomeAt, BIOMES, biomeBlendAt, BiomeId, blendColor, blendNumber } from './biomes';
 import { useGameStore } from './GameManager';
+import { partMatrix, Vec3 } from './instancing';
+import { currentQuality, useQuality } from './quality';
+import { createRng, deriveSeed, Rng, TICK_DURATION } from './sim';
+
+// The track is a loop of segments that scroll with the run and are re-dressed as they wrap
+const SEGMENT_LENGTH = 20;
+const SEGMENT_COUNT = 5;
+const TRACK_START = 10; // z of the near end of the nearest segment, just behind the camera
+const TREES_PER_SIDE = 5;
+const PROPS_PER_SIDE = 3;
+const SCENERY_POOL_SIZE = 64; // instances per part across all segments
+
+interface SceneryPart {
+    geometry: BufferGeometry;
+    material: Material;
+    tint?: (biome: Biome) => string; // per-instance color, blended across biome transitions
+    wets?: boolean; // darkens and turns glossy in the rain
+    castShadow?: boolean;
+    receiveShadow?: boolean;
+}
+
+const standard = (color: string, extra: MeshStandardMaterialParameters = {}) =>
+    new MeshStandardMaterial({ color, flatShading: true, ...extra });
+
+// Ground and stripe, which turn glossy in the rain
+const WET_MATERIALS = [
+    standard('#fff', { roughness: 0.9, flatShading: false }),
+    standard('#fff', { roughness: 0.9, flatShading: false }),
+];
+
+type SceneryPartName =
+    | 'ground' | 'stripe' | 'laneDash' | 'wall'
+    | 'trunk' | 'pineLow' | 'pineMid' | 'pineTop' | 'roundTop' | 'bush' | 'stone' | 'flower'
+    | 'cactus' | 'cactusArm' | 'sandstone' | 'tumbleweed'
+    | 'snowPineLow' | 'snowPineMid' | 'snowPineTop' | 'snowdrift' | 'iceRock'
+    | 'building' | 'window' | 'lampPost' | 'lampHead';
+
+// Shared track pieces are tinted per biome; everything else belongs to one biome's set
+const SCENERY_PARTS: Record<SceneryPartName, SceneryPart> = {
+    ground: { geometry: new PlaneGeometry(12, SEGMENT_LENGTH), material: WET_MATERIALS[0], tint: (b: Biome) => b.ground, wets: true, receiveShadow: true },
+    stripe: { geometry: new PlaneGeometry(12, SEGMENT_LENGTH / 4), material: WET_MATERIALS[1], tint: (b: Biome) => b.stripe, wets: true, receiveShadow: true },
+    laneDash: { geometry: new PlaneGeometry(0.05, 1.5), material: new MeshBasicMaterial({ color: '#fff' }), tint: (b: Biome) => b.laneLine },
+    wall: { geometry: new BoxGeometry(3, 8, SEGMENT_LENGTH), material: standard('#fff', { flatShading: false }), tint: (b: Biome) => b.wall },
+
+    // Meadow
+    trunk: { geometry: new CylinderGeometry(0.15, 0.25, 1.6, 6), material: standard('#5c4033'), castShadow: true },
+    pineLow: { geometry: new ConeGeometry(0.8, 1.5, 6), material: standard('#2d6e32'), castShadow: true },
+    pineMid: { geometry: new ConeGeometry(0.6, 1.2, 6), material: standard('#3a8c40'), castShadow: true },
+    pineTop: { geometry: new ConeGeometry(0.4, 0.9, 6), material: standard('#4aa050'), castShadow: true },
+    roundTop: { geometry: new DodecahedronGeometry(1, 0), material: standard('#2d6e32'), castShadow: true },
+    bush: { geometry: new DodecahedronGeometry(0.35, 0), material: standard('#3a8c40'), castShadow: true },
+    stone: { geometry: new DodecahedronGeometry(0.25, 0), material: standard('#7a7a7a', { roughness: 0.9 }) },
+    flower: { geometry: new SphereGeometry(0.1, 6, 6), material: standard('#ff77a8', { emissive: '#ff77a8', emissiveIntensity: 0.2, flatShading: false }) },
+
+    // Desert
+    cactus: { geometry: new CylinderGeometry(0.2, 0.25, 2, 8), material: standard('#5a8f3c'), castShadow: true },
+    cactusArm: { geometry: new CylinderGeometry(0.12, 0.12, 0.8, 6), material: standard('#5a8f3c'), castShadow: true },
+    sandstone: { geometry: new DodecahedronGeometry(0.6, 0), material: standard('#c77d4a', { roughness: 0.9 }), castShadow: true },
+    tumbleweed: { geometry: new IcosahedronGeometry(0.3, 0), material: standard('#a0783c', { wireframe: true }) },
+
+    // Snowy forest
+    snowPineLow: { geometry: new ConeGeometry(0.8, 1.5, 6), material: standard('#3d6b5a'), castShadow: true },
+    snowPineMid: { geometry: new ConeGeometry(0.6, 1.2, 6), material: standard('#cfe0ea'), castShadow: true },
+    snowPineTop: { geometry: new ConeGeometry(0.4, 0.9, 6), material: standard('#f4f8ff'), castShadow: true },
+    snowdrift: { geometry: new SphereGeometry(0.6, 8, 6), material: standard('#f4f8ff', { flatShading: false }) },
+    iceRock: { geometry: new DodecahedronGeometry(0.35, 0), material: standard('#a9d6f0', { roughness: 0.2 }) },
+
+    // Night city
+    building: { geometry: new BoxGeometry(1, 1, 1), material: standard('#1c1e29', { flatShading: false }) },
+    window: { geometry: new PlaneGeometry(0.5, 0.7), material: new MeshBasicMaterial({ color: '#ffd27a' }) },
+    lampPost: { geometry: new CylinderGeometry(0.06, 0.08, 3, 6), material: standard('#55575f'), castShadow: true },
+    lampHead: { geometry: new SphereGeometry(0.18, 8, 8), material: standard('#ffd27a', { emissive: '#ffd27a', emissiveIntensity: 1.5, flatShading: false }) },
+};
+
+const PART_NAMES = Object.keys(SCENERY_PARTS) as SceneryPartName[];
+
+interface Placement {
+    part: SceneryPartName;
+    matrix: Matrix4; // within the segment; z runs from 0 (near end) to -SEGMENT_LENGTH
+}
+
+interface Segment {
+    seed: number;
+    index: number; // absolute segment number along the run
+    density: number;
+    center: number; // track distance of the segment's middle, for its biome blend
+    placements: Placement[];
+}
+
+type Place = (part: SceneryPartName, position: Vec3, rotation?: Vec3, scale?: number | Vec3) => void;
+
+// Roadside dressing for one side (sign -1 left, 1 right) of a segment in each biome;
+// `density` is the quality preset's share of trees and props to keep
+const DRESSERS: Record<BiomeId, (place: Place, rng: Rng, sign: number, density: number) => void> = {
+    meadow: (place, rng, sign, density) => {
+        for (let i = 0; i < TREES_PER_SIDE; i++) {
+            if (rng.next() > density) continue;
+            const x = sign * (4.5 - rng.next() * 0.5);
+            const z = -(i + rng.next() * 0.5) * (SEGMENT_LENGTH / TREES_PER_SIDE);
+            const scale = rng.range(0.8, 1.2);
+            const turn: Vec3 = [0, rng.next() * Math.PI, 0];
+            place('trunk', [x, 0.8 * scale, z], turn, scale);
+            if (rng.next() > 0.5) {
+                place('pineLow', [x, 2.2 * scale, z], turn, scale);
+                place('pineMid', [x, 3 * scale, z], turn, scale);
+                place('pineTop', [x, 3.6 * scale, z], turn, scale);
+            } else {
+                place('roundTop', [x, 2.5 * scale, z], turn, scale);
+            }
+        }
+        for (let i = 0; i < PROPS_PER_SIDE; i++) {
+            if (rng.next() > density) continue;
+            const x = sign * rng.range(3, 3.8);
+            const z = -rng.next() * SEGMENT_LENGTH;
+            const roll = rng.next();
+            if (roll < 0.4) place('bush', [x, 0.2, z], [0, rng.next() * Math.PI, 0], rng.range(0.7, 1.3));
+            else if (roll < 0.7) place('stone', [x, 0.1, z], [0, rng.next() * Math.PI, 0], rng.range(0.6, 1.2));
+            else place('flower', [x, 0.1, z]);
+        }
+    },
+
+    desert: (place, rng, sign, density) => {
+        for (let i = 0; i < TREES_PER_SIDE - 2; i++) {
+            if (rng.next() > density) continue;
+            const x = sign * rng.range(3.6, 4.4);
+            const z = -(i + rng.next() * 0.5) * (SEGMENT_LENGTH / (TREES_PER_SIDE - 2));
+            const scale = rng.range(0.8, 1.3);
+            place('cactus', [x, scale, z], undefined, scale);
+            if (rng.next() > 0.4) place('cactusArm', [x + 0.3 * scale, 1.2 * scale, z], [0, 0, -0.6], scale);
+            if (rng.next() > 0.4) place('cactusArm', [x - 0.3 * scale, 1 * scale, z], [0, 0, 0.6], scale);
+        }
+        for (let i = 0; i < PROPS_PER_SIDE; i++) {
+            if (rng.next() > density) continue;
+            const x = sign * rng.range(3, 3.8);
+            const z = -rng.next() * SEGMENT_LENGTH;
+            if (rng.next() < 0.5) place('sandstone', [x, 0.2, z], [0, rng.next() * Math.PI, 0], rng.range(0.5, 1.1));
+            else place('tumbleweed', [x, 0.3, z], [rng.next(), rng.next(), 0]);
+        }
+    },
+
+    snow: (place, rng, sign, density) => {
+        for (let i = 0; i < TREES_PER_SIDE; i++) {
+            if (rng.next() > density) continue;
+            const x = sign * (4.5 - rng.next() * 0.5);
+            const z = -(i + rng.next() * 0.5) * (SEGMENT_LENGTH / TREES_PER_SIDE);
+            const scale = rng.range(0.8, 1.3);
+            const turn: Vec3 = [0, rng.next() * Math.PI, 0];
+            place('trunk', [x, 0.8 * scale, z], turn, scale);
+            place('snowPineLow', [x, 2.2 * scale, z], turn, scale);
+            place('snowPineMid', [x, 3 * scale, z], turn, scale);
+            place('snowPineTop', [x, 3.6 * scale, z], turn, scale);
+        }
+        for (let i = 0; i < PROPS_PER_SIDE; i++) {
+            if (rng.next() > density) continue;
+            const x = sign * rng.range(3, 3.8);
+            const z = -rng.next() * SEGMENT_LENGTH;
+            if (rng.next() < 0.6) place('snowdrift', [x, 0, z], undefined, [rng.range(0.8, 1.4), 0.4, rng.range(0.8, 1.6)]);
+            else place('iceRock', [x, 0.15, z], [0, rng.next() * Math.PI, 0], rng.range(0.7, 1.3));
+        }
+    },
+
+    city: (place, rng, sign, density) => {
+        // Tower blocks behind the wall, lit windows on the wall facing the track
+        for (let i = 0; i < 3; i++) {
+            const height = rng.range(9, 18);
+            place('building', [sign * rng.range(7, 9), height / 2, -(i + 0.5) * (SEGMENT_LENGTH / 3)], undefined, [3, height, rng.range(4, 6)]);
+        }
+        for (let i = 0; i < 6; i++) {
+            if (rng.next() > 0.65 * density) continue;
+            place('window', [sign * 3.99, rng.range(1.5, 6), -rng.next() * SEGMENT_LENGTH], [0, -sign * Math.PI / 2, 0]);
+        }
+        // Street lamps
+        const lampZ = -rng.range(2, SEGMENT_LENGTH / 2);
+        [lampZ, lampZ - SEGMENT_LENGTH / 2].forEach((z) => {
+            place('lampPost', [sign * 3.4, 1.5, z]);
+            place('lampHead', [sign * 3.4, 3.05, z]);
+        });
+    },
+};
+
+/**
+ * Dresses one segment. Ground, stripes, lane lines and walls are on every segment,
+ * tinted by biome; the roadside set comes from the segment's biome and a stream
+ * derived from the run seed and the segment number, so a seed (or replay) always
+ * scrolls past the same scenery.
+ */
+function layoutSegment(seed: number, index: number, density: number): Segment {
+    const rng = createRng(deriveSeed(seed, `scenery:${index}`));
+    const center = index * SEGMENT_LENGTH - TRACK_START + SEGMENT_LENGTH / 2;
+    const placements: Placement[] = [];
+    const place: Place = (part, position, rotation, scale) => {
+        placements.push({ part, matrix: partMatrix(position, rotation, scale) });
+    };
+    const flat: Vec3 = [-Math.PI / 2, 0, 0];
+
+    // Ground with mown stripes, dashed lane lines and the side walls
+    place('ground', [0, 0, -SEGMENT_LENGTH / 2], flat);
+    place('stripe', [0, 0.005, -SEGMENT_LENGTH / 8], flat);
+    place('stripe', [0, 0.005, (-SEGMENT_LENGTH * 5) / 8], flat);
+    [-1.8, 1.8].forEach((x) => {
+        for (let z = -1; z > -SEGMENT_LENGTH; z -= 4) place('laneDash', [x, 0.01, z], flat);
+    });
+    place('wall', [-5.5, 3, -SEGMENT_LENGTH / 2]);
+    place('wall', [5.5, 3, -SEGMENT_LENGTH / 2]);
+
+    const dress = DRESSERS[biomeAt(center).id];
+    [-1, 1].forEach((sign) => dress(place, rng, sign, density));
+
+    return { seed, index, density, center, placements };
+}
+
+// Scratch objects reused every frame
+const segmentOffset = new Matrix4();
+const instanceMatrix = new Matrix4();
+const tint = new Color();
+const counts = new Map<SceneryPartName, number>();
+
+// Horizon mountains/hills: center, left, right
+const HILLS: { position: Vec3; args: [number, number, number] }[] = [
+    { position: [0, 2, -65], args: [25, 15, 4] },
+    { position: [-20, 1, -60], args: [15, 10, 4] },
+    { position: [20, 1.5, -55], args: [18, 12, 4] },
+];
+
+const hex = (color: Color) => `#${color.getHexString()}`;
+
+// Sky gradient for the canvas background, blended and shaded like everything else
+function skyGradient(blend: BiomeBlend, conditions: Conditions): string {
+    const stops = [0, 1, 2].map((i) => hex(shade(blendColor(tint, blend, (b) => b.sky[i]), conditions, (p) => p.sky[i])));
+    return `linear-gradient(to bottom, ${stops[0]} 0%, ${stops[1]} 50%, ${stops[2]} 100%)`;
+}
 
 export function World() {
-    const groundRef = useRef<Mesh>(null);
-    const { speed, status } = useGameStore();
-    const textureOffset = useRef(0);
-
-    useFrame((state, delta) => {
-        if (status === 'playing' && groundRef.current) {
-            // Scroll ground texture
-            textureOffset.current += speed * delta * 5;
+    const meshes = useRef<Partial<Record<SceneryPartName, InstancedMesh | null>>>({});
+    const segments = useRef<(Segment | null)[]>(new Array(SEGMENT_COUNT).fill(null));
+    const ambient = useRef<AmbientLight>(null);
+    const sun = useRef<DirectionalLight>(null);
+    const hemisphere = useRef<HemisphereLight>(null);
+    const hills = useRef<(MeshStandardMaterial | null)[]>([]);
+    const sky = useRef('');
+    const { scene, gl } = useThree();
+    const quality = useQuality();
+
+    useFrame(() => {
+        const { world, loop, seed } = useGameStore.getState();
+        const quality = currentQuality();
+
+        // Distance travelled at this render frame, so scenery scrolls in step with obstacles
+        const scroll = world ? world.distance - (1 - loop.alpha) * world.speed * 60 * TICK_DURATION : 0;
+        const first = Math.floor(scroll / SEGMENT_LENGTH);
+        const conditions: Conditions = { time: timeOfDayAt(seed, world?.time ?? 0), weather: weatherAt(seed, scroll) };
+        const wet = wetness(conditions.weather);
+
+        PART_NAMES.forEach((name) => counts.set(name, 0));
+        for (let index = first; index < first + SEGMENT_COUNT; index++) {
+            // Each slot is recycled by the segment SEGMENT_COUNT further along
+            const slot = index % SEGMENT_COUNT;
+            let segment = segments.current[slot];
+            if (!segment || segment.index !== index || segment.seed !== seed || segment.density !== quality.scenery) {
+                segment = layoutSegment(seed, index, quality.scenery);
+                segments.current[slot] = segment;
+            }
+
+            const blend = biomeBlendAt(segment.center);
+            segmentOffset.makeTranslation(0, 0, TRACK_START - index * SEGMENT_LENGTH + scroll);
+            segment.placements.forEach(({ part, matrix }) => {
+                const mesh = meshes.current[part];
+                const count = counts.get(part) ?? 0;
+                if (!mesh || count >= SCENERY_POOL_SIZE) return;
+                mesh.setMatrixAt(count, instanceMatrix.multiplyMatrices(segmentOffset, matrix));
+                const { tint: pick, wets }: SceneryPart = SCENERY_PARTS[part];
+                if (pick) mesh.setColorAt(count, blendColor(tint, blend, pick).multiplyScalar(wets ? 1 - 0.3 * wet : 1));
+                counts.set(part, count + 1);
+            });
+        }
+
+        PART_NAMES.forEach((name) => {
+            const mesh = meshes.current[name];
+            if (!mesh) return;
+            mesh.count = counts.get(name) ?? 0;
+            mesh.instanceMatrix.needsUpdate = true;
+            if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+        });
+        WET_MATERIALS.forEach((material) => {
+            material.roughness = 0.9 - 0.6 * wet;
+            material.metalness = 0.3 * wet;
+        });
+
+        // Lights, fog and sky follow the biome under the hamster, then the time of day and weather
+        const here = biomeBlendAt(scroll);
+        if (ambient.current) {
+            shade(blendColor(ambient.current.color, here, (b) => b.ambient.color), conditions, (p) => p.ambient);
+            ambient.current.intensity = blendNumber(here, (b) => b.ambient.intensity) * lightLevel(conditions, 0.45);
+        }
+        if (sun.current) {
+            // The sun crosses from left to right over the day and stays up as a dim moon at night
+            const { phase, sunHeight } = conditions.time;
+            sun.current.position.set(-Math.cos((phase - 0.25) * Math.PI * 2) * 15, Math.max(4, sunHeight * 15), 10);
+            shade(blendColor(sun.current.color, here, (b) => b.sun.color), conditions, (p) => p.sun);
+            sun.current.intensity = blendNumber(here, (b) => b.sun.intensity) * lightLevel(conditions, 0.15);
+        }
+        if (hemisphere.current) {
+            blendColor(hemisphere.current.color, here, (b) => b.hemisphere.sky);
+            blendColor(hemisphere.current.groundColor, here, (b) => b.hemisphere.ground);
+            hemisphere.current.intensity = blendNumber(here, (b) => b.hemisphere.intensity) * lightLevel(conditions, 0.4);
+        }
+        if (scene.fog instanceof Fog) {
+            // Rain and snow close the fog in
+            const closeIn = 1 - 0.35 * conditions.weather.intensity;
+            shade(blendColor(scene.fog.color, here, (b) => b.fog.color), conditions, (p) => p.fog);
+            scene.fog.near = blendNumber(here, (b) => b.fog.near) * closeIn;
+            scene.fog.far = blendNumber(here, (b) => b.fog.far) * closeIn;
+        }
+        hills.current.forEach((material, i) => {
+            if (material) shade(blendColor(material.color, here, (b) => b.hills[i]), conditions, (p) => p.fog);
+        });
+        const gradient = skyGradient(here, conditions);
+        if (gradient !== sky.current) {
+            sky.current = gradient;
+            gl.domElement.style.background = gradient;
         }
     });
 
+    const start = BIOMES[0];
+
     return (
         <>
-            {/* Lighting */}
-            <ambientLight intensity={0.6} color="#a8d5ff" />
+            {/* Lighting, re-tinted every frame for the biome, time of day and weather */}
+            <ambientLight ref={ambient} intensity={start.ambient.intensity} color={start.ambient.color} />
+            {/* Remounted when the shadow map size changes, since three only allocates it once */}
             <directionalLight
+                key={quality.shadowMapSize}
+                ref={sun}
                 position={[5, 15, 10]}
-                intensity={1.2}
-                castShadow
-                shadow-mapSize={[1024, 1024]}
-                color="#fff5e6"
+                intensity={start.sun.intensity}
+                castShadow={quality.shadows}
+                shadow-mapSize={[quality.shadowMapSize, quality.shadowMapSize]}
+                color={start.sun.color}
             />
-            <hemisphereLight args={['#87CEEB', '#3e8948', 0.4]} />
-
-            {/* Ground - Grass */}
-            <mesh
-                ref={groundRef}
-                rotation={[-Math.PI / 2, 0, 0]}
-                position={[0, 0, -25]}
-                receiveShadow
-            >
-                <planeGeometry args={[12, 80]} />
-                <meshStandardMaterial
-                    color="#4a7c4e"
-                    roughness={0.9}
-                />
-            </mesh>
-
-            {/* Track lanes - subtle lines */}
-            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[-1.8, 0.01, -25]}>
-                <planeGeometry args={[0.05, 80]} />
-                <meshBasicMaterial color="#3e6b42" />
-            </mesh>
-            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[1.8, 0.01, -25]}>
-                <planeGeometry args={[0.05, 80]} />
-                <meshBasicMaterial color="#3e6b42" />
-            </mesh>
-
-            {/* Side forest walls with gradient */}
-            <mesh position={[-5.5, 3, -25]}>
-                <boxGeometry args={[3, 8, 80]} />
-                <meshStandardMaterial color="#2d5a30" />
-            </mesh>
-            <mesh position={[5.5, 3, -25]}>
-                <boxGeometry args={[3, 8, 80]} />
-                <meshStandardMaterial color="#2d5a30" />
-            </mesh>
-
-            {/* Static background trees */}
-            {Array.from({ length: 20 }).map((_, i) => (
-                <StaticTree
-                    key={`tree-l-${i}`}
-                    position={[-4.5 + Math.random() * 0.5, 0, -5 - i * 4 - Math.random() * 2]}
-                    scale={0.8 + Math.random() * 0.4}
-                />
-            ))}
-            {Array.from({ length: 20 }).map((_, i) => (
-                <StaticTree
-                    key={`tree-r-${i}`}
-                    position={[4.5 - Math.random() * 0.5, 0, -5 - i * 4 - Math.random() * 2]}
-                    scale={0.8 + Math.random() * 0.4}
-                />
-            ))}
-
-            {/* Horizon mountains/hills */}
-            <mesh position={[0, 2, -65]}>
-                <coneGeometry args={[25, 15, 4]} />
-                <meshStandardMaterial color="#1e3a1e" flatShading />
-            </mesh>
-            <mesh position={[-20, 1, -60]}>
-                <coneGeometry args={[15, 10, 4]} />
-                <meshStandardMaterial color="#254525" flatShading />
-            </mesh>
-            <mesh position={[20, 1.5, -55]}>
-                <coneGeometry args={[18, 12, 4]} />
-                <meshStandardMaterial color="#2a4d2a" flatShading />
-            </mesh>
-        </>
-    );
-}
+            {quality.extraLights && (
+                <hemisphereLight ref={hemisphere} args={[start.hemisphere.sky, start.hemisphere.ground, start.hemisphere.intensity]} />
+            )}
 
-function StaticTree({ position, scale = 1 }: { position: [number, number, number], scale?: number }) {
-    const treeType = useMemo(() => Math.random(), []);
+            {/* Scrolling track segments */}
+            {PART_NAMES.map((name) => {
+                const { geometry, material, castShadow, receiveShadow }: SceneryPart = SCENERY_PARTS[name];
+                return (
+                    <instancedMesh
+                        key={name}
+                        ref={(mesh) => { meshes.current[name] = mesh; }}
+                        args={[geometry, material, SCENERY_POOL_SIZE]}
+                        castShadow={castShadow}
+                        receiveShadow={receiveShadow}
+                        frustumCulled={false}
+                    />
+                );
+            })}
 
-    return (
-        <group position={position} scale={scale}>
-            {/* Trunk */}
-            <mesh position={[0, 0.8, 0]} castShadow>
-                <cylinderGeometry args={[0.15, 0.25, 1.6, 6]} />
-                <meshStandardMaterial color="#5c4033" flatShading />
-            </mesh>
-
-            {/* Foliage - varies by tree type */}
-            {treeType > 0.5 ? (
-                // Pine tree
-                <>
-                    <mesh position={[0, 2.2, 0]} castShadow>
-                        <coneGeometry args={[0.8, 1.5, 6]} />
-                        <meshStandardMaterial color="#2d6e32" flatShading />
-                    </mesh>
-                    <mesh position={[0, 3, 0]} castShadow>
-                        <coneGeometry args={[0.6, 1.2, 6]} />
-                        <meshStandardMaterial color="#3a8c40" flatShading />
-                    </mesh>
-                    <mesh position={[0, 3.6, 0]} castShadow>
-                        <coneGeometry args={[0.4, 0.9, 6]} />
-                        <meshStandardMaterial color="#4aa050" flatShading />
-                    </mesh>
-                </>
-            ) : (
-                // Round tree
-                <mesh position={[0, 2.5, 0]} castShadow>
-                    <dodecahedronGeometry args={[1, 0]} />
-                    <meshStandardMaterial color="#2d6e32" flatShading />
+            {/* Horizon mountains/hills */}
+            {HILLS.map(({ position, args }, i) => (
+                <mesh key={i} position={position}>
+                    <coneGeometry args={args} />
+                    <meshStandardMaterial ref={(m) => { hills.current[i] = m; }} color={start.hills[i]} flatShading />
                 </mesh>
-            )}
-        </group>
+            ))}
+        </>
     );
 }
@@ -0,0 +1,63 @@
+import type { StringKey } from './i18n';
+import { AchievementRecord, LifetimeStats, useProfileStore } from './profile';
+import type { WorldState } from './sim';
+import { pushToast } from './toasts';
+
+export interface Achievement {
+    id: string; // stored in the profile; never rename
+    icon: string;
+    name: StringKey;
+    description: StringKey;
+    goal: number;
+    // Progress of the run so far; lifetime goals add the run to the finished runs' totals
+    measure: (world: WorldState, lifetime: LifetimeStats) => number;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+    { id: 'coinPurse', icon: '🪙', name: 'achCoinPurse', description: 'achCoinPurseDesc', goal: 100, measure: (w) => w.stats.coins },
+    { id: 'coinHoard', icon: '💰', name: 'achCoinHoard', description: 'achCoinHoardDesc', goal: 1000, measure: (w, l) => l.coins + w.stats.coins },
+    { id: 'hotStreak', icon: '🌶️', name: 'achHotStreak', description: 'achHotStreakDesc', goal: 5, measure: (w) => w.stats.powerUps.chilly },
+    { id: 'magnetic', icon: '🧲', name: 'achMagnetic', description: 'achMagneticDesc', goal: 3, measure: (w) => w.stats.powerUps.magnet },
+    { id: 'rockHopper', icon: '🪨', name: 'achRockHopper', description: 'achRockHopperDesc', goal: 5, measure: (w) => w.stats.bestRockJumpStreak },
+    { id: 'limbo', icon: '🌿', name: 'achLimbo', description: 'achLimboDesc', goal: 20, measure: (w) => w.stats.slides },
+    { id: 'survivor', icon: '⏱️', name: 'achSurvivor', description: 'achSurvivorDesc', goal: 180, measure: (w) => w.time },
+    { id: 'topSpeed', icon: '🚀', name: 'achTopSpeed', description: 'achTopSpeedDesc', goal: 120, measure: (w) => w.stats.topSpeedTime },
+    { id: 'marathon', icon: '🏃', name: 'achMarathon', description: 'achMarathonDesc', goal: 5000, measure: (w) => w.distance },
+    { id: 'globetrotter', icon: '🌍', name: 'achGlobetrotter', description: 'achGlobetrotterDesc', goal: 50000, measure: (w, l) => l.distance + w.distance },
+];
+
+const isUnlocked = (records: Record<string, AchievementRecord>, id: string) => !!records[id]?.unlockedAt;
+
+/**
+ * Unlocks every achievement the run has just reached, with a toast for each.
+ * Called after each step of a live run; replays and ghosts never unlock anything.
+ */
+export function checkAchievements(world: WorldState) {
+    const { profile, update } = useProfileStore.getState();
+    const reached = ACHIEVEMENTS.filter((a) => !isUnlocked(profile.achievements, a.id) && a.measure(world, profile.stats) >= a.goal);
+    if (reached.length === 0) return;
+
+    const unlockedAt = new Date().toISOString();
+    update(({ achievements }) => ({
+        achievements: {
+            ...achievements,
+            ...Object.fromEntries(reached.map((a) => [a.id, { progress: a.goal, unlockedAt }])),
+        },
+    }));
+    reached.forEach((a) => pushToast({ icon: a.icon, title: 'achievementUnlocked', text: a.name }));
+}
+
+// Keeps the best progress of a finished run; `lifetime` is the totals before the run is added
+export function recordAchievementProgress(
+    records: Record<string, AchievementRecord>,
+    world: WorldState,
+    lifetime: LifetimeStats,
+): Record<string, AchievementRecord> {
+    const next = { ...records };
+    ACHIEVEMENTS.forEach((a) => {
+        const record = next[a.id] ?? { progress: 0, unlockedAt: null };
+        const progress = Math.min(a.goal, Math.max(record.progress, a.measure(world, lifetime)));
+        next[a.id] = { ...record, progress };
+    });
+    return next;
+}
@@ -0,0 +1,113 @@
+import { Color } from 'three';
+import { BIOME_LENGTH, biomeAt, BiomeId } from './biomes';
+import { createRng, deriveSeed } from './sim';
+
+// Time of day and weather, layered over the biome's own colors and lights. Both come
+// from the run seed and the simulation's time and distance, so a replay or daily run
+// always gets the same sky.
+
+export const DAY_LENGTH = 240; // seconds of game time per full day
+export const WEATHER_SPELL = BIOME_LENGTH / 2; // world units per weather spell, two per biome
+const WEATHER_FADE = 40; // units over which a spell's weather builds up and clears
+
+export type WeatherKind = 'clear' | 'rain' | 'snow';
+
+// Weather a biome can roll for each spell, repeated to weight the pick
+const WEATHER_BY_BIOME: Record<BiomeId, WeatherKind[]> = {
+    meadow: ['clear', 'clear', 'rain'],
+    desert: ['clear'],
+    snow: ['clear', 'snow', 'snow'],
+    city: ['clear', 'rain', 'rain'],
+};
+
+export interface TimeOfDay {
+    phase: number; // 0 midnight, 0.25 sunrise, 0.5 noon, 0.75 sunset
+    sunHeight: number; // -1 at midnight to 1 at noon
+    daylight: number; // 0 at night to 1 in full day
+    glow: number; // 0..1, strongest around sunrise and sunset
+}
+
+export interface Weather {
+    kind: WeatherKind;
+    intensity: number; // 0..1, ramps in and out at the ends of a spell
+}
+
+export interface Conditions {
+    time: TimeOfDay;
+    weather: Weather;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export function timeOfDayAt(seed: number, time: number): TimeOfDay {
+    // Runs start somewhere between early morning and mid-afternoon
+    const start = 0.3 + createRng(deriveSeed(seed, 'daytime')).next() * 0.3;
+    const phase = (start + time / DAY_LENGTH) % 1;
+    const sunHeight = Math.sin((phase - 0.25) * Math.PI * 2);
+    return {
+        phase,
+        sunHeight,
+        daylight: clamp01((sunHeight + 0.2) / 0.6),
+        glow: clamp01(1 - Math.abs(sunHeight) / 0.35),
+    };
+}
+
+export function weatherAt(seed: number, distance: number): Weather {
+    const d = Math.max(0, distance);
+    const spell = Math.floor(d / WEATHER_SPELL);
+    const options = WEATHER_BY_BIOME[biomeAt(spell * WEATHER_SPELL).id];
+    const kind = options[createRng(deriveSeed(seed, `weather:${spell}`)).int(options.length)];
+    const into = d - spell * WEATHER_SPELL;
+    const intensity = kind === 'clear' ? 0 : clamp01(Math.min(into, WEATHER_SPELL - into) / WEATHER_FADE);
+    return { kind, intensity };
+}
+
+// How the time of day and weather pull a color away from the biome's own
+interface Palette {
+    sky: [string, string, string];
+    fog: string;
+    ambient: string;
+    sun: string;
+}
+
+const NIGHT: Palette = {
+    sky: ['#05060f', '#0d1126', '#1a1f3a'],
+    fog: '#0b0e1f',
+    ambient: '#3a4a8a',
+    sun: '#8fa2ff',
+};
+
+const DUSK: Palette = {
+    sky: ['#2b2450', '#c8584a', '#f2a65a'],
+    fog: '#6b3f4a',
+    ambient: '#ffb38a',
+    sun: '#ff9a5a',
+};
+
+const OVERCAST: Palette = {
+    sky: ['#3c414d', '#5d636f', '#7a808c'],
+    fog: '#5d636f',
+    ambient: '#9aa3b5',
+    sun: '#c9d1de',
+};
+
+const scratch = new Color();
+
+// Blends a biome color (already in `target`) toward night, dusk and overcast as conditions call for
+export function shade(target: Color, conditions: Conditions, pick: (palette: Palette) => string): Color {
+    const { time, weather } = conditions;
+    target.lerp(scratch.set(pick(NIGHT)), (1 - time.daylight) * 0.85);
+    target.lerp(scratch.set(pick(DUSK)), time.glow * 0.5);
+    return target.lerp(scratch.set(pick(OVERCAST)), weather.intensity * 0.6);
+}
+
+// Multiplier for light intensities: dimmer at night and under cloud
+export function lightLevel(conditions: Conditions, night: number): number {
+    const { time, weather } = conditions;
+    return (night + (1 - night) * time.daylight) * (1 - 0.35 * weather.intensity);
+}
+
+// How wet the track looks; snow settles rather than soaking it
+export function wetness(weather: Weather): number {
+    return weather.kind === 'rain' ? weather.intensity : 0;
+}
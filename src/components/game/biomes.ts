@@ -0,0 +1,124 @@
+import { Color } from 'three';
+
+export type BiomeId = 'meadow' | 'desert' | 'snow' | 'city';
+
+// Colors for the obstacle materials in Obstacles.tsx
+export interface ObstacleSkin {
+    rock: string;
+    rockSmall: string;
+    wood: string;
+    leaves: string;
+}
+
+export interface Biome {
+    id: BiomeId;
+    name: string;
+    ground: string;
+    stripe: string;
+    laneLine: string;
+    wall: string;
+    sky: [string, string, string]; // background gradient: top, middle, horizon
+    hills: [string, string, string]; // the three horizon shapes: center, left, right
+    fog: { color: string; near: number; far: number };
+    ambient: { color: string; intensity: number };
+    sun: { color: string; intensity: number };
+    hemisphere: { sky: string; ground: string; intensity: number };
+    skin: ObstacleSkin;
+}
+
+// Biomes follow each other in this order, one every BIOME_LENGTH world units
+export const BIOMES: Biome[] = [
+    {
+        id: 'meadow',
+        name: 'MEADOW',
+        ground: '#4a7c4e',
+        stripe: '#457548',
+        laneLine: '#3e6b42',
+        wall: '#2d5a30',
+        sky: ['#1a1c2c', '#333c57', '#3e8948'],
+        hills: ['#1e3a1e', '#254525', '#2a4d2a'],
+        fog: { color: '#1a1c2c', near: 10, far: 50 },
+        ambient: { color: '#a8d5ff', intensity: 0.6 },
+        sun: { color: '#fff5e6', intensity: 1.2 },
+        hemisphere: { sky: '#87CEEB', ground: '#3e8948', intensity: 0.4 },
+        skin: { rock: '#6b6b6b', rockSmall: '#7a7a7a', wood: '#8b5a2b', leaves: '#3e8948' },
+    },
+    {
+        id: 'desert',
+        name: 'DESERT',
+        ground: '#d8b072',
+        stripe: '#cfa566',
+        laneLine: '#b98c50',
+        wall: '#b07a45',
+        sky: ['#3b2a4a', '#c46a3a', '#e8b86b'],
+        hills: ['#8a5a3a', '#9c6a45', '#a8764e'],
+        fog: { color: '#c99b6a', near: 15, far: 55 },
+        ambient: { color: '#ffe0b0', intensity: 0.7 },
+        sun: { color: '#ffd59e', intensity: 1.4 },
+        hemisphere: { sky: '#ffd9a0', ground: '#c2955a', intensity: 0.5 },
+        skin: { rock: '#b5653a', rockSmall: '#c77d4a', wood: '#9c6b3c', leaves: '#7a8c3a' },
+    },
+    {
+        id: 'snow',
+        name: 'SNOWY FOREST',
+        ground: '#e8eef5',
+        stripe: '#dde5ee',
+        laneLine: '#b7c4d4',
+        wall: '#5f7f73',
+        sky: ['#2b3a55', '#7d93b2', '#dfe8f2'],
+        hills: ['#8fa3b8', '#a3b5c8', '#b5c5d6'],
+        fog: { color: '#c9d6e6', near: 8, far: 45 },
+        ambient: { color: '#dbe8ff', intensity: 0.75 },
+        sun: { color: '#ffffff', intensity: 1.0 },
+        hemisphere: { sky: '#cfe3ff', ground: '#ffffff', intensity: 0.5 },
+        skin: { rock: '#9fb4c7', rockSmall: '#b8cad9', wood: '#6b4a2f', leaves: '#f4f8ff' },
+    },
+    {
+        id: 'city',
+        name: 'NIGHT CITY',
+        ground: '#3a3d4a',
+        stripe: '#343744',
+        laneLine: '#f4b41b',
+        wall: '#23252f',
+        sky: ['#05060f', '#141a33', '#2a2f4f'],
+        hills: ['#141726', '#181b2c', '#1c2033'],
+        fog: { color: '#0b0e1f', near: 8, far: 45 },
+        ambient: { color: '#6a7bd6', intensity: 0.35 },
+        sun: { color: '#8fa2ff', intensity: 0.5 },
+        hemisphere: { sky: '#30365e', ground: '#1a1a1a', intensity: 0.3 },
+        skin: { rock: '#7d7f88', rockSmall: '#8e9099', wood: '#c9462c', leaves: '#2f6b4f' },
+    },
+];
+
+export const BIOME_LENGTH = 400; // world units per biome
+export const BIOME_TRANSITION = 60; // the last this-many units of a biome blend into the next
+
+export function biomeAt(distance: number): Biome {
+    return BIOMES[Math.floor(Math.max(0, distance) / BIOME_LENGTH) % BIOMES.length];
+}
+
+export interface BiomeBlend {
+    from: Biome;
+    to: Biome;
+    t: number; // 0 = all `from`, 1 = all `to`
+}
+
+// The biome at a track distance, blending into the next one over BIOME_TRANSITION
+export function biomeBlendAt(distance: number): BiomeBlend {
+    const d = Math.max(0, distance);
+    const index = Math.floor(d / BIOME_LENGTH);
+    const into = d - index * BIOME_LENGTH;
+    const t = Math.max(0, (into - (BIOME_LENGTH - BIOME_TRANSITION)) / BIOME_TRANSITION);
+    return { from: BIOMES[index % BIOMES.length], to: BIOMES[(index + 1) % BIOMES.length], t };
+}
+
+const scratch = new Color();
+
+// Sets `target` to a biome color blended across a transition
+export function blendColor(target: Color, blend: BiomeBlend, pick: (biome: Biome) => string): Color {
+    return target.set(pick(blend.from)).lerp(scratch.set(pick(blend.to)), blend.t);
+}
+
+export function blendNumber(blend: BiomeBlend, pick: (biome: Biome) => number): number {
+    return pick(blend.from) + (pick(blend.to) - pick(blend.from)) * blend.t;
+}
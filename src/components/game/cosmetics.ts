@@ -0,0 +1,114 @@
+import type { ObstacleSkin } from './biomes';
+import type { StringKey } from './i18n';
+import { Profile, useProfileStore } from './profile';
+
+// Shop items: what the hamster wears, the trail it leaves and how the obstacles look
+
+export type CosmeticSlot = 'fur' | 'hat' | 'accessory' | 'trail' | 'obstacles';
+
+export interface FurColors {
+    body: string;
+    head: string;
+    light: string; // ears and tail
+    legs: string;
+}
+
+export type HatModel = 'cap' | 'beanie' | 'topHat' | 'crown';
+export type AccessoryModel = 'scarf' | 'bowtie' | 'glasses';
+export type TrailShape = 'sparkle' | 'bubble' | 'cloud';
+
+interface CosmeticBase {
+    id: string; // stored in the profile; never rename
+    name: StringKey;
+    icon: string;
+    price: number; // coins; free items are owned from the start
+}
+
+export type Cosmetic =
+    | (CosmeticBase & { slot: 'fur'; fur: FurColors })
+    | (CosmeticBase & { slot: 'hat'; hat: HatModel | null; color: string })
+    | (CosmeticBase & { slot: 'accessory'; accessory: AccessoryModel | null; color: string })
+    | (CosmeticBase & { slot: 'trail'; trail: TrailShape | null; color: string })
+    | (CosmeticBase & { slot: 'obstacles'; skin: ObstacleSkin | null; danger: string }); // null skin follows the biome
+
+export type CosmeticOf<S extends CosmeticSlot> = Extract<Cosmetic, { slot: S }>;
+
+export const COSMETIC_SLOTS: CosmeticSlot[] = ['fur', 'hat', 'accessory', 'trail', 'obstacles'];
+
+export const COSMETICS: Cosmetic[] = [
+    { id: 'furGolden', slot: 'fur', name: 'furGolden', icon: '🐹', price: 0, fur: { body: '#d4a574', head: '#e8c49a', light: '#f0d0b0', legs: '#c49a6c' } },
+    { id: 'furSnow', slot: 'fur', name: 'furSnow', icon: '🤍', price: 150, fur: { body: '#eeeae4', head: '#f7f4ef', light: '#ffffff', legs: '#d8d2c8' } },
+    { id: 'furCocoa', slot: 'fur', name: 'furCocoa', icon: '🍫', price: 150, fur: { body: '#7a4a2a', head: '#8f5b36', light: '#b07a52', legs: '#643a1f' } },
+    { id: 'furGinger', slot: 'fur', name: 'furGinger', icon: '🧡', price: 250, fur: { body: '#e07b39', head: '#f0965a', light: '#f7c09a', legs: '#c4652a' } },
+    { id: 'furPanda', slot: 'fur', name: 'furPanda', icon: '🐼', price: 400, fur: { body: '#f4f4f4', head: '#f4f4f4', light: '#1a1c2c', legs: '#1a1c2c' } },
+
+    { id: 'hatNone', slot: 'hat', name: 'hatNone', icon: '🚫', price: 0, hat: null, color: '#000000' },
+    { id: 'hatCap', slot: 'hat', name: 'hatCap', icon: '🧢', price: 200, hat: 'cap', color: '#e43b44' },
+    { id: 'hatBeanie', slot: 'hat', name: 'hatBeanie', icon: '🧶', price: 200, hat: 'beanie', color: '#41a6f6' },
+    { id: 'hatTopHat', slot: 'hat', name: 'hatTopHat', icon: '🎩', price: 500, hat: 'topHat', color: '#1a1c2c' },
+    { id: 'hatCrown', slot: 'hat', name: 'hatCrown', icon: '👑', price: 1000, hat: 'crown', color: '#f4b41b' },
+
+    { id: 'accessoryNone', slot: 'accessory', name: 'accessoryNone', icon: '🚫', price: 0, accessory: null, color: '#000000' },
+    { id: 'accessoryScarf', slot: 'accessory', name: 'accessoryScarf', icon: '🧣', price: 150, accessory: 'scarf', color: '#b13e53' },
+    { id: 'accessoryBowtie', slot: 'accessory', name: 'accessoryBowtie', icon: '🎀', price: 250, accessory: 'bowtie', color: '#3b5dc9' },
+    { id: 'accessoryGlasses', slot: 'accessory', name: 'accessoryGlasses', icon: '🕶️', price: 350, accessory: 'glasses', color: '#1a1c2c' },
+
+    { id: 'trailNone', slot: 'trail', name: 'trailNone', icon: '🚫', price: 0, trail: null, color: '#000000' },
+    { id: 'trailDust', slot: 'trail', name: 'trailDust', icon: '💨', price: 100, trail: 'cloud', color: '#c2a27a' },
+    { id: 'trailBubbles', slot: 'trail', name: 'trailBubbles', icon: '🫧', price: 300, trail: 'bubble', color: '#73eff7' },
+    { id: 'trailSparkles', slot: 'trail', name: 'trailSparkles', icon: '✨', price: 600, trail: 'sparkle', color: '#f4b41b' },
+
+    { id: 'obstaclesNatural', slot: 'obstacles', name: 'obstaclesNatural', icon: '🌳', price: 0, skin: null, danger: '#e43b44' },
+    { id: 'obstaclesCandy', slot: 'obstacles', name: 'obstaclesCandy', icon: '🍬', price: 400, skin: { rock: '#f49ac1', rockSmall: '#fbd0e3', wood: '#f4f4f4', leaves: '#a7f070' }, danger: '#e43b44' },
+    { id: 'obstaclesNeon', slot: 'obstacles', name: 'obstaclesNeon', icon: '🌈', price: 600, skin: { rock: '#29366f', rockSmall: '#3b5dc9', wood: '#5d275d', leaves: '#38b764' }, danger: '#73eff7' },
+    { id: 'obstaclesGold', slot: 'obstacles', name: 'obstaclesGold', icon: '🏆', price: 1500, skin: { rock: '#f4b41b', rockSmall: '#ffcd75', wood: '#a0722a', leaves: '#ef7d57' }, danger: '#b13e53' },
+];
+
+const BY_ID = new Map(COSMETICS.map((c) => [c.id, c]));
+
+export const cosmeticById = (id: string): Cosmetic | undefined => BY_ID.get(id);
+
+// The free item of each slot, worn until something else is equipped
+const DEFAULTS = Object.fromEntries(
+    COSMETIC_SLOTS.map((slot) => [slot, COSMETICS.find((c) => c.slot === slot && c.price === 0)]),
+) as { [S in CosmeticSlot]: CosmeticOf<S> };
+
+export const isOwned = (profile: Profile, cosmetic: Cosmetic) => cosmetic.price === 0 || profile.unlocks.includes(cosmetic.id);
+
+export type Loadout = { [S in CosmeticSlot]: CosmeticOf<S> };
+
+// What is worn in every slot; missing, unknown or unowned items fall back to the free one
+export function loadoutOf(profile: Profile): Loadout {
+    return Object.fromEntries(
+        COSMETIC_SLOTS.map((slot) => {
+            const item = cosmeticById(profile.equipped[slot] ?? '');
+            return [slot, item && item.slot === slot && isOwned(profile, item) ? item : DEFAULTS[slot]];
+        }),
+    ) as Loadout;
+}
+
+// The loadout, for components that re-render when it changes
+export const useLoadout = (): Loadout => loadoutOf(useProfileStore((s) => s.profile));
+
+// The loadout, for per-frame code
+export const currentLoadout = (): Loadout => loadoutOf(useProfileStore.getState().profile);
+
+export function equipCosmetic(id: string) {
+    const { profile, update } = useProfileStore.getState();
+    const item = cosmeticById(id);
+    if (!item || !isOwned(profile, item)) return;
+    update(({ equipped }) => ({ equipped: { ...equipped, [item.slot]: id } }));
+}
+
+// Spends coins on an item and wears it; false when it is unaffordable or already owned
+export function buyCosmetic(id: string): boolean {
+    const { profile, update } = useProfileStore.getState();
+    const item = cosmeticById(id);
+    if (!item || isOwned(profile, item) || profile.currency < item.price) return false;
+    update(({ currency, unlocks, equipped }) => ({
+        currency: currency - item.price,
+        unlocks: [...unlocks, id],
+        equipped: { ...equipped, [item.slot]: id },
+    }));
+    return true;
+}
@@ -0,0 +1,566 @@
+import { Language, useSettingsStore } from './settings';
+
+// UI text for the menus and settings; the HUD is mostly numbers and emoji
+const EN = {
+    languageName: 'ENGLISH',
+    paused: 'PAUSED',
+    score: 'SCORE',
+    resume: '▶ RESUME',
+    soundOn: '🔊 SOUND ON',
+    soundOff: '🔇 SOUND OFF',
+    quit: '✖ QUIT',
+    menu: '☰ MENU',
+    resumeHint: 'ESC / P TO RESUME',
+    tapLeft: '👈 TAP LEFT - MOVE LEFT',
+    tapCenter: '👆 TAP CENTER - JUMP',
+    tapRight: '👉 TAP RIGHT - MOVE RIGHT',
+    swipeMove: '👈 👉 SWIPE - CHANGE LANE',
+    swipeUp: '👆 SWIPE UP / TAP - JUMP',
+    swipeDown: '👇 SWIPE DOWN - SLIDE',
+    highScore: 'HIGH SCORE',
+    start: '▶ START',
+    raceGhost: '👻 RACE GHOST',
+    dailyRun: '📅 DAILY RUN',
+    todaysBest: "TODAY'S BEST",
+    showCalendar: '▼ CALENDAR',
+    hideCalendar: '▲ HIDE CALENDAR',
+    daily: '📅 DAILY',
+    daysPlayed: 'DAYS PLAYED',
+    modNoMagnets: 'NO MAGNETS',
+    modFastStart: 'FAST START',
+    modCoinLaneLeft: 'COIN LANE: LEFT',
+    modCoinLaneCenter: 'COIN LANE: CENTER',
+    modCoinLaneRight: 'COIN LANE: RIGHT',
+    ouch: '💥 OUCH!',
+    beatGhostBy: 'BEAT GHOST BY',
+    ghostWinsBy: 'GHOST WINS BY',
+    dailyBest: '📅 DAILY BEST',
+    newHighScore: '🎉 NEW HIGH SCORE! 🎉',
+    best: 'BEST',
+    tryAgain: '🔄 TRY AGAIN',
+    watchRun: '🎬 WATCH RUN',
+    export: '💾 EXPORT',
+    loadReplay: '📂 LOAD REPLAY',
+    exitReplay: '✖ EXIT',
+    replayNotAFile: 'NOT A REPLAY FILE',
+    replayCorrupted: 'REPLAY FILE IS CORRUPTED',
+    replayVersion: 'REPLAY WAS RECORDED WITH A DIFFERENT GAME VERSION',
+    replayLoadFailed: 'COULD NOT LOAD REPLAY',
+    seed: 'SEED',
+    sameSeed: '↺ SAME SEED',
+    share: '🔗 SHARE',
+    copied: '✔ COPIED',
+    settings: '⚙ SETTINGS',
+    sound: 'SOUND',
+    music: 'MUSIC',
+    effects: 'EFFECTS',
+    haptics: 'VIBRATION',
+    screenShake: 'SCREEN SHAKE',
+    quality: 'QUALITY',
+    controls: 'TOUCH CONTROLS',
+    language: 'LANGUAGE',
+    on: 'ON',
+    off: 'OFF',
+    auto: 'AUTO',
+    low: 'LOW',
+    medium: 'MEDIUM',
+    high: 'HIGH',
+    zones: 'TAP ZONES',
+    swipe: 'SWIPES',
+    resetDefaults: '↺ DEFAULTS',
+    close: '✔ DONE',
+    profile: 'PROFILE',
+    importFile: '📂 IMPORT',
+    copyCode: '📋 COPY CODE',
+    pasteCode: '📥 PASTE CODE',
+    loadCode: '✔ LOAD CODE',
+    profileLoaded: '✔ PROFILE LOADED',
+    profileNotAFile: 'NOT A PROFILE FILE OR CODE',
+    profileCorrupted: 'PROFILE IS CORRUPTED',
+    profileVersion: 'PROFILE IS FROM A NEWER VERSION OF THE GAME',
+    profileLoadFailed: 'COULD NOT LOAD PROFILE',
+    stats: '📊 STATS',
+    runs: 'RUNS',
+    totalScore: 'TOTAL SCORE',
+    averageScore: 'AVERAGE SCORE',
+    distance: 'DISTANCE',
+    longestDistance: 'FURTHEST RUN',
+    timeAlive: 'TIME ALIVE',
+    playTime: 'TIME PLAYED',
+    longestRun: 'LONGEST RUN',
+    coins: '🪙 COINS',
+    chillies: '🌶️ CHILLIES',
+    magnets: '🧲 MAGNETS',
+    shields: '🛡️ SHIELDS',
+    doublers: '✖2 DOUBLERS',
+    hourglasses: '⏳ HOURGLASSES',
+    jumps: 'JUMPS',
+    slides: 'SLIDES',
+    laneChanges: 'LANE CHANGES',
+    nearMisses: '😅 NEAR MISSES',
+    hitsAbsorbed: '🛡️ HITS ABSORBED',
+    maxSpeed: 'TOP SPEED',
+    causeOfDeath: 'CRASHED INTO',
+    hitRock: '🪨 ROCK',
+    hitBranch: '🌿 BRANCH',
+    hitLog: '🪵 LOG',
+    recentScores: 'RECENT SCORES',
+    noRunsYet: 'NO RUNS YET',
+    achievements: '🏆 ACHIEVEMENTS',
+    achievementUnlocked: 'ACHIEVEMENT UNLOCKED',
+    unlockedOn: 'UNLOCKED',
+    achCoinPurse: 'COIN PURSE',
+    achCoinPurseDesc: 'COLLECT 100 COINS IN ONE RUN',
+    achCoinHoard: 'COIN HOARD',
+    achCoinHoardDesc: 'COLLECT 1000 COINS IN TOTAL',
+    achHotStreak: 'HOT STREAK',
+    achHotStreakDesc: 'EAT 5 CHILLIES IN ONE RUN',
+    achMagnetic: 'MAGNETIC',
+    achMagneticDesc: 'PICK UP 3 MAGNETS IN ONE RUN',
+    achRockHopper: 'ROCK HOPPER',
+    achRockHopperDesc: 'JUMP 5 ROCKS IN A ROW',
+    achLimbo: 'LIMBO',
+    achLimboDesc: 'SLIDE 20 TIMES IN ONE RUN',
+    achSurvivor: 'SURVIVOR',
+    achSurvivorDesc: 'SURVIVE 3 MINUTES',
+    achTopSpeed: 'FULL THROTTLE',
+    achTopSpeedDesc: 'SURVIVE 2 MINUTES AT MAX SPEED',
+    achMarathon: 'MARATHON',
+    achMarathonDesc: 'RUN 5000M IN ONE RUN',
+    achGlobetrotter: 'GLOBETROTTER',
+    achGlobetrotterDesc: 'RUN 50000M IN TOTAL',
+    missions: '🎯 MISSIONS',
+    missionComplete: 'MISSION COMPLETE',
+    missionsCompleted: 'COMPLETED',
+    missionCoins: 'COLLECT {n} COINS IN ONE RUN',
+    missionCoinsTotal: 'COLLECT {n} COINS',
+    missionMagnets: 'PICK UP {n} MAGNETS',
+    missionChillies: 'EAT {n} CHILLIES',
+    missionJumps: 'JUMP {n} TIMES IN ONE RUN',
+    missionSlides: 'SLIDE {n} TIMES IN ONE RUN',
+    missionLaneChanges: 'CHANGE LANES {n} TIMES',
+    missionDistance: 'RUN {n}M IN ONE RUN',
+    missionSurvive: 'SURVIVE {n} SECONDS',
+    missionSpeedTier: 'REACH SPEED TIER {n}',
+    shop: '🛒 SHOP',
+    wallet: 'WALLET',
+    slotFur: 'FUR',
+    slotHat: 'HATS',
+    slotAccessory: 'EXTRAS',
+    slotTrail: 'TRAILS',
+    slotObstacles: 'OBSTACLES',
+    buy: 'BUY',
+    equip: 'EQUIP',
+    equipped: '✔ EQUIPPED',
+    notEnoughCoins: 'NOT ENOUGH COINS',
+    furGolden: 'GOLDEN',
+    furSnow: 'SNOWY',
+    furCocoa: 'COCOA',
+    furGinger: 'GINGER',
+    furPanda: 'PANDA',
+    hatNone: 'NO HAT',
+    hatCap: 'CAP',
+    hatBeanie: 'BEANIE',
+    hatTopHat: 'TOP HAT',
+    hatCrown: 'CROWN',
+    accessoryNone: 'NOTHING',
+    accessoryScarf: 'SCARF',
+    accessoryBowtie: 'BOW TIE',
+    accessoryGlasses: 'SUNGLASSES',
+    trailNone: 'NO TRAIL',
+    trailDust: 'DUST',
+    trailBubbles: 'BUBBLES',
+    trailSparkles: 'SPARKLES',
+    obstaclesNatural: 'NATURAL',
+    obstaclesCandy: 'CANDY',
+    obstaclesNeon: 'NEON',
+    obstaclesGold: 'GOLDEN',
+    pointsDistance: '🏃 DISTANCE PTS',
+    pointsCoins: '🪙 COIN PTS',
+    pointsPowerUps: '⚡ POWER-UP PTS',
+    pointsNearMisses: '😅 NEAR MISS PTS',
+    pointsScoreBoost: '✖2 BONUS',
+    pointsCombo: '🔥 COMBO BONUS',
+    bestCombo: 'BEST COMBO',
+    nearMiss: 'CLOSE CALL!',
+};
+
+export type StringKey = keyof typeof EN;
+
+const STRINGS: Record<Language, Record<StringKey, string>> = {
+    en: EN,
+    es: {
+        languageName: 'ESPAÑOL',
+        paused: 'PAUSA',
+        score: 'PUNTOS',
+        resume: '▶ SEGUIR',
+        soundOn: '🔊 SONIDO SÍ',
+        soundOff: '🔇 SONIDO NO',
+        quit: '✖ SALIR',
+        menu: '☰ MENÚ',
+        resumeHint: 'ESC / P PARA SEGUIR',
+        tapLeft: '👈 TOCA IZQUIERDA - MOVER',
+        tapCenter: '👆 TOCA CENTRO - SALTAR',
+        tapRight: '👉 TOCA DERECHA - MOVER',
+        swipeMove: '👈 👉 DESLIZA - CAMBIAR CARRIL',
+        swipeUp: '👆 DESLIZA ARRIBA / TOCA - SALTAR',
+        swipeDown: '👇 DESLIZA ABAJO - AGACHARSE',
+        highScore: 'RÉCORD',
+        start: '▶ JUGAR',
+        raceGhost: '👻 CARRERA FANTASMA',
+        dailyRun: '📅 RETO DIARIO',
+        todaysBest: 'MEJOR DE HOY',
+        showCalendar: '▼ CALENDARIO',
+        hideCalendar: '▲ OCULTAR CALENDARIO',
+        daily: '📅 DIARIO',
+        daysPlayed: 'DÍAS JUGADOS',
+        modNoMagnets: 'SIN IMANES',
+        modFastStart: 'SALIDA RÁPIDA',
+        modCoinLaneLeft: 'CARRIL DE MONEDAS: IZQUIERDA',
+        modCoinLaneCenter: 'CARRIL DE MONEDAS: CENTRO',
+        modCoinLaneRight: 'CARRIL DE MONEDAS: DERECHA',
+        ouch: '💥 ¡AY!',
+        beatGhostBy: 'GANAS AL FANTASMA POR',
+        ghostWinsBy: 'EL FANTASMA GANA POR',
+        dailyBest: '📅 MEJOR DIARIO',
+        newHighScore: '🎉 ¡NUEVO RÉCORD! 🎉',
+        best: 'MEJOR',
+        tryAgain: '🔄 OTRA VEZ',
+        watchRun: '🎬 VER CARRERA',
+        export: '💾 EXPORTAR',
+        loadReplay: '📂 CARGAR REPETICIÓN',
+        exitReplay: '✖ SALIR',
+        replayNotAFile: 'NO ES UN ARCHIVO DE REPETICIÓN',
+        replayCorrupted: 'EL ARCHIVO DE REPETICIÓN ESTÁ DAÑADO',
+        replayVersion: 'LA REPETICIÓN ES DE OTRA VERSIÓN DEL JUEGO',
+        replayLoadFailed: 'NO SE PUDO CARGAR LA REPETICIÓN',
+        seed: 'SEMILLA',
+        sameSeed: '↺ MISMA SEMILLA',
+        share: '🔗 COMPARTIR',
+        copied: '✔ COPIADO',
+        settings: '⚙ AJUSTES',
+        sound: 'SONIDO',
+        music: 'MÚSICA',
+        effects: 'EFECTOS',
+        haptics: 'VIBRACIÓN',
+        screenShake: 'TEMBLOR',
+        quality: 'CALIDAD',
+        controls: 'CONTROL TÁCTIL',
+        language: 'IDIOMA',
+        on: 'SÍ',
+        off: 'NO',
+        auto: 'AUTO',
+        low: 'BAJA',
+        medium: 'MEDIA',
+        high: 'ALTA',
+        zones: 'ZONAS',
+        swipe: 'DESLIZAR',
+        resetDefaults: '↺ POR DEFECTO',
+        close: '✔ LISTO',
+        profile: 'PERFIL',
+        importFile: '📂 IMPORTAR',
+        copyCode: '📋 COPIAR CÓDIGO',
+        pasteCode: '📥 PEGAR CÓDIGO',
+        loadCode: '✔ CARGAR CÓDIGO',
+        profileLoaded: '✔ PERFIL CARGADO',
+        profileNotAFile: 'NO ES UN ARCHIVO NI UN CÓDIGO DE PERFIL',
+        profileCorrupted: 'EL PERFIL ESTÁ DAÑADO',
+        profileVersion: 'EL PERFIL ES DE UNA VERSIÓN MÁS NUEVA DEL JUEGO',
+        profileLoadFailed: 'NO SE PUDO CARGAR EL PERFIL',
+        stats: '📊 ESTADÍSTICAS',
+        runs: 'CARRERAS',
+        totalScore: 'PUNTOS TOTALES',
+        averageScore: 'MEDIA',
+        distance: 'DISTANCIA',
+        longestDistance: 'MÁS LEJOS',
+        timeAlive: 'TIEMPO VIVO',
+        playTime: 'TIEMPO JUGADO',
+        longestRun: 'CARRERA MÁS LARGA',
+        coins: '🪙 MONEDAS',
+        chillies: '🌶️ CHILES',
+        magnets: '🧲 IMANES',
+        shields: '🛡️ ESCUDOS',
+        doublers: '✖2 DOBLADORES',
+        hourglasses: '⏳ RELOJES DE ARENA',
+        jumps: 'SALTOS',
+        slides: 'DESLIZAMIENTOS',
+        laneChanges: 'CAMBIOS DE CARRIL',
+        nearMisses: '😅 ROCES',
+        hitsAbsorbed: '🛡️ GOLPES PARADOS',
+        maxSpeed: 'VELOCIDAD MÁX.',
+        causeOfDeath: 'CHOCASTE CON',
+        hitRock: '🪨 ROCA',
+        hitBranch: '🌿 RAMA',
+        hitLog: '🪵 TRONCO',
+        recentScores: 'ÚLTIMAS PUNTUACIONES',
+        noRunsYet: 'AÚN SIN CARRERAS',
+        achievements: '🏆 LOGROS',
+        achievementUnlocked: 'LOGRO DESBLOQUEADO',
+        unlockedOn: 'DESBLOQUEADO',
+        achCoinPurse: 'MONEDERO',
+        achCoinPurseDesc: 'RECOGE 100 MONEDAS EN UNA CARRERA',
+        achCoinHoard: 'TESORO',
+        achCoinHoardDesc: 'RECOGE 1000 MONEDAS EN TOTAL',
+        achHotStreak: 'RACHA PICANTE',
+        achHotStreakDesc: 'COME 5 CHILES EN UNA CARRERA',
+        achMagnetic: 'MAGNÉTICO',
+        achMagneticDesc: 'COGE 3 IMANES EN UNA CARRERA',
+        achRockHopper: 'SALTARROCAS',
+        achRockHopperDesc: 'SALTA 5 ROCAS SEGUIDAS',
+        achLimbo: 'LIMBO',
+        achLimboDesc: 'DESLÍZATE 20 VECES EN UNA CARRERA',
+        achSurvivor: 'SUPERVIVIENTE',
+        achSurvivorDesc: 'SOBREVIVE 3 MINUTOS',
+        achTopSpeed: 'A TOPE',
+        achTopSpeedDesc: 'SOBREVIVE 2 MINUTOS A VELOCIDAD MÁXIMA',
+        achMarathon: 'MARATÓN',
+        achMarathonDesc: 'CORRE 5000M EN UNA CARRERA',
+        achGlobetrotter: 'TROTAMUNDOS',
+        achGlobetrotterDesc: 'CORRE 50000M EN TOTAL',
+        missions: '🎯 MISIONES',
+        missionComplete: 'MISIÓN CUMPLIDA',
+        missionsCompleted: 'CUMPLIDAS',
+        missionCoins: 'RECOGE {n} MONEDAS EN UNA CARRERA',
+        missionCoinsTotal: 'RECOGE {n} MONEDAS',
+        missionMagnets: 'COGE {n} IMANES',
+        missionChillies: 'COME {n} CHILES',
+        missionJumps: 'SALTA {n} VECES EN UNA CARRERA',
+        missionSlides: 'DESLÍZATE {n} VECES EN UNA CARRERA',
+        missionLaneChanges: 'CAMBIA DE CARRIL {n} VECES',
+        missionDistance: 'CORRE {n}M EN UNA CARRERA',
+        missionSurvive: 'SOBREVIVE {n} SEGUNDOS',
+        missionSpeedTier: 'LLEGA AL NIVEL DE VELOCIDAD {n}',
+        shop: '🛒 TIENDA',
+        wallet: 'MONEDERO',
+        slotFur: 'PELAJE',
+        slotHat: 'GORROS',
+        slotAccessory: 'EXTRAS',
+        slotTrail: 'ESTELAS',
+        slotObstacles: 'OBSTÁCULOS',
+        buy: 'COMPRAR',
+        equip: 'EQUIPAR',
+        equipped: '✔ EQUIPADO',
+        notEnoughCoins: 'FALTAN MONEDAS',
+        furGolden: 'DORADO',
+        furSnow: 'NEVADO',
+        furCocoa: 'CACAO',
+        furGinger: 'CANELA',
+        furPanda: 'PANDA',
+        hatNone: 'SIN GORRO',
+        hatCap: 'GORRA',
+        hatBeanie: 'GORRO',
+        hatTopHat: 'CHISTERA',
+        hatCrown: 'CORONA',
+        accessoryNone: 'NADA',
+        accessoryScarf: 'BUFANDA',
+        accessoryBowtie: 'PAJARITA',
+        accessoryGlasses: 'GAFAS DE SOL',
+        trailNone: 'SIN ESTELA',
+        trailDust: 'POLVO',
+        trailBubbles: 'BURBUJAS',
+        trailSparkles: 'CHISPAS',
+        obstaclesNatural: 'NATURAL',
+        obstaclesCandy: 'CARAMELO',
+        obstaclesNeon: 'NEÓN',
+        obstaclesGold: 'DORADO',
+        pointsDistance: '🏃 PTS DISTANCIA',
+        pointsCoins: '🪙 PTS MONEDAS',
+        pointsPowerUps: '⚡ PTS POTENCIADORES',
+        pointsNearMisses: '😅 PTS ROCES',
+        pointsScoreBoost: '✖2 BONUS',
+        pointsCombo: '🔥 BONUS COMBO',
+        bestCombo: 'MEJOR COMBO',
+        nearMiss: '¡POR LOS PELOS!',
+    },
+    de: {
+        languageName: 'DEUTSCH',
+        paused: 'PAUSE',
+        score: 'PUNKTE',
+        resume: '▶ WEITER',
+        soundOn: '🔊 TON AN',
+        soundOff: '🔇 TON AUS',
+        quit: '✖ BEENDEN',
+        menu: '☰ MENÜ',
+        resumeHint: 'ESC / P ZUM FORTSETZEN',
+        tapLeft: '👈 LINKS TIPPEN - NACH LINKS',
+        tapCenter: '👆 MITTE TIPPEN - SPRINGEN',
+        tapRight: '👉 RECHTS TIPPEN - NACH RECHTS',
+        swipeMove: '👈 👉 WISCHEN - SPUR WECHSELN',
+        swipeUp: '👆 HOCH WISCHEN / TIPPEN - SPRINGEN',
+        swipeDown: '👇 RUNTER WISCHEN - RUTSCHEN',
+        highScore: 'REKORD',
+        start: '▶ START',
+        raceGhost: '👻 GEGEN GEIST',
+        dailyRun: '📅 TAGESLAUF',
+        todaysBest: 'HEUTE BESTE',
+        showCalendar: '▼ KALENDER',
+        hideCalendar: '▲ KALENDER ZU',
+        daily: '📅 TÄGLICH',
+        daysPlayed: 'TAGE GESPIELT',
+        modNoMagnets: 'KEINE MAGNETE',
+        modFastStart: 'SCHNELLER START',
+        modCoinLaneLeft: 'MÜNZSPUR: LINKS',
+        modCoinLaneCenter: 'MÜNZSPUR: MITTE',
+        modCoinLaneRight: 'MÜNZSPUR: RECHTS',
+        ouch: '💥 AUTSCH!',
+        beatGhostBy: 'GEIST GESCHLAGEN UM',
+        ghostWinsBy: 'GEIST GEWINNT UM',
+        dailyBest: '📅 TAGESBESTE',
+        newHighScore: '🎉 NEUER REKORD! 🎉',
+        best: 'BESTE',
+        tryAgain: '🔄 NOCHMAL',
+        watchRun: '🎬 LAUF ANSEHEN',
+        export: '💾 EXPORT',
+        loadReplay: '📂 REPLAY LADEN',
+        exitReplay: '✖ BEENDEN',
+        replayNotAFile: 'KEINE REPLAY-DATEI',
+        replayCorrupted: 'REPLAY-DATEI IST BESCHÄDIGT',
+        replayVersion: 'REPLAY STAMMT AUS EINER ANDEREN SPIELVERSION',
+        replayLoadFailed: 'REPLAY KONNTE NICHT GELADEN WERDEN',
+        seed: 'SEED',
+        sameSeed: '↺ GLEICHER SEED',
+        share: '🔗 TEILEN',
+        copied: '✔ KOPIERT',
+        settings: '⚙ EINSTELLUNGEN',
+        sound: 'TON',
+        music: 'MUSIK',
+        effects: 'EFFEKTE',
+        haptics: 'VIBRATION',
+        screenShake: 'WACKELN',
+        quality: 'GRAFIK',
+        controls: 'TOUCH-STEUERUNG',
+        language: 'SPRACHE',
+        on: 'AN',
+        off: 'AUS',
+        auto: 'AUTO',
+        low: 'NIEDRIG',
+        medium: 'MITTEL',
+        high: 'HOCH',
+        zones: 'ZONEN',
+        swipe: 'WISCHEN',
+        resetDefaults: '↺ STANDARD',
+        close: '✔ FERTIG',
+        profile: 'PROFIL',
+        importFile: '📂 IMPORT',
+        copyCode: '📋 CODE KOPIEREN',
+        pasteCode: '📥 CODE EINFÜGEN',
+        loadCode: '✔ CODE LADEN',
+        profileLoaded: '✔ PROFIL GELADEN',
+        profileNotAFile: 'KEINE PROFILDATEI UND KEIN PROFILCODE',
+        profileCorrupted: 'PROFIL IST BESCHÄDIGT',
+        profileVersion: 'PROFIL STAMMT AUS EINER NEUEREN SPIELVERSION',
+        profileLoadFailed: 'PROFIL KONNTE NICHT GELADEN WERDEN',
+        stats: '📊 STATISTIK',
+        runs: 'LÄUFE',
+        totalScore: 'GESAMTPUNKTE',
+        averageScore: 'DURCHSCHNITT',
+        distance: 'STRECKE',
+        longestDistance: 'WEITESTER LAUF',
+        timeAlive: 'ÜBERLEBT',
+        playTime: 'SPIELZEIT',
+        longestRun: 'LÄNGSTER LAUF',
+        coins: '🪙 MÜNZEN',
+        chillies: '🌶️ CHILIS',
+        magnets: '🧲 MAGNETE',
+        shields: '🛡️ SCHILDE',
+        doublers: '✖2 VERDOPPLER',
+        hourglasses: '⏳ SANDUHREN',
+        jumps: 'SPRÜNGE',
+        slides: 'RUTSCHER',
+        laneChanges: 'SPURWECHSEL',
+        nearMisses: '😅 BEINAHE-TREFFER',
+        hitsAbsorbed: '🛡️ ABGEWEHRTE TREFFER',
+        maxSpeed: 'HÖCHSTTEMPO',
+        causeOfDeath: 'GESTOLPERT ÜBER',
+        hitRock: '🪨 STEIN',
+        hitBranch: '🌿 AST',
+        hitLog: '🪵 STAMM',
+        recentScores: 'LETZTE PUNKTE',
+        noRunsYet: 'NOCH KEINE LÄUFE',
+        achievements: '🏆 ERFOLGE',
+        achievementUnlocked: 'ERFOLG FREIGESCHALTET',
+        unlockedOn: 'FREIGESCHALTET',
+        achCoinPurse: 'GELDBEUTEL',
+        achCoinPurseDesc: 'SAMMLE 100 MÜNZEN IN EINEM LAUF',
+        achCoinHoard: 'SCHATZ',
+        achCoinHoardDesc: 'SAMMLE INSGESAMT 1000 MÜNZEN',
+        achHotStreak: 'FEUERSPUR',
+        achHotStreakDesc: 'ISS 5 CHILIS IN EINEM LAUF',
+        achMagnetic: 'MAGNETISCH',
+        achMagneticDesc: 'HOL 3 MAGNETE IN EINEM LAUF',
+        achRockHopper: 'STEINSPRINGER',
+        achRockHopperDesc: 'SPRING ÜBER 5 STEINE IN FOLGE',
+        achLimbo: 'LIMBO',
+        achLimboDesc: 'RUTSCHE 20 MAL IN EINEM LAUF',
+        achSurvivor: 'ÜBERLEBENDER',
+        achSurvivorDesc: 'ÜBERLEBE 3 MINUTEN',
+        achTopSpeed: 'VOLLGAS',
+        achTopSpeedDesc: 'ÜBERLEBE 2 MINUTEN BEI HÖCHSTTEMPO',
+        achMarathon: 'MARATHON',
+        achMarathonDesc: 'LAUF 5000M IN EINEM LAUF',
+        achGlobetrotter: 'WELTENBUMMLER',
+        achGlobetrotterDesc: 'LAUF INSGESAMT 50000M',
+        missions: '🎯 MISSIONEN',
+        missionComplete: 'MISSION ERFÜLLT',
+        missionsCompleted: 'ERFÜLLT',
+        missionCoins: 'SAMMLE {n} MÜNZEN IN EINEM LAUF',
+        missionCoinsTotal: 'SAMMLE {n} MÜNZEN',
+        missionMagnets: 'HOL {n} MAGNETE',
+        missionChillies: 'ISS {n} CHILIS',
+        missionJumps: 'SPRING {n} MAL IN EINEM LAUF',
+        missionSlides: 'RUTSCHE {n} MAL IN EINEM LAUF',
+        missionLaneChanges: 'WECHSLE {n} MAL DIE SPUR',
+        missionDistance: 'LAUF {n}M IN EINEM LAUF',
+        missionSurvive: 'ÜBERLEBE {n} SEKUNDEN',
+        missionSpeedTier: 'ERREICHE TEMPOSTUFE {n}',
+        shop: '🛒 LADEN',
+        wallet: 'GELDBÖRSE',
+        slotFur: 'FELL',
+        slotHat: 'HÜTE',
+        slotAccessory: 'EXTRAS',
+        slotTrail: 'SPUREN',
+        slotObstacles: 'HINDERNISSE',
+        buy: 'KAUFEN',
+        equip: 'ANLEGEN',
+        equipped: '✔ ANGELEGT',
+        notEnoughCoins: 'ZU WENIG MÜNZEN',
+        furGolden: 'GOLDEN',
+        furSnow: 'SCHNEEWEISS',
+        furCocoa: 'KAKAO',
+        furGinger: 'ROTBLOND',
+        furPanda: 'PANDA',
+        hatNone: 'KEIN HUT',
+        hatCap: 'KAPPE',
+        hatBeanie: 'MÜTZE',
+        hatTopHat: 'ZYLINDER',
+        hatCrown: 'KRONE',
+        accessoryNone: 'NICHTS',
+        accessoryScarf: 'SCHAL',
+        accessoryBowtie: 'FLIEGE',
+        accessoryGlasses: 'SONNENBRILLE',
+        trailNone: 'KEINE SPUR',
+        trailDust: 'STAUB',
+        trailBubbles: 'BLASEN',
+        trailSparkles: 'FUNKEN',
+        obstaclesNatural: 'NATUR',
+        obstaclesCandy: 'SÜSSIGKEITEN',
+        obstaclesNeon: 'NEON',
+        obstaclesGold: 'GOLDEN',
+        pointsDistance: '🏃 STRECKENPUNKTE',
+        pointsCoins: '🪙 MÜNZPUNKTE',
+        pointsPowerUps: '⚡ EXTRA-PUNKTE',
+        pointsNearMisses: '😅 BEINAHE-PUNKTE',
+        pointsScoreBoost: '✖2-BONUS',
+        pointsCombo: '🔥 COMBO-BONUS',
+        bestCombo: 'BESTE COMBO',
+        nearMiss: 'KNAPP!',
+    },
+};
+
+// Text in the player's chosen language
+export const useStrings = (): Record<StringKey, string> => STRINGS[useSettingsStore((s) => s.language)];
+
+// Puts a number into a '{n}' placeholder
+export const fill = (text: string, n?: number) => (n === undefined ? text : text.replace('{n}', String(n)));
+
+export const languageName = (language: Language) => STRINGS[language].languageName;
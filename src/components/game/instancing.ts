@@ -0,0 +1,12 @@
+import { Euler, Matrix4, Quaternion, Vector3 } from 'three';
+
+export type Vec3 = [number, number, number];
+
+// Transform of one instanced mesh part within the model it belongs to
+export function partMatrix(position: Vec3, rotation: Vec3 = [0, 0, 0], scale: number | Vec3 = 1): Matrix4 {
+    return new Matrix4().compose(
+        new Vector3(...position),
+        new Quaternion().setFromEuler(new Euler(...rotation)),
+        typeof scale === 'number' ? new Vector3(scale, scale, scale) : new Vector3(...scale),
+    );
+}
@@ -0,0 +1,114 @@
+import type { StringKey } from './i18n';
+import { MissionRecord, Missions, useProfileStore } from './profile';
+import { difficultyTier, MAX_TIER, WorldState } from './sim';
+import { pushToast } from './toasts';
+
+// Three missions are active at a time; each completed one is replaced by a fresh kind
+export const ACTIVE_MISSIONS = 3;
+
+export interface MissionKind {
+    icon: string;
+    text: StringKey; // '{n}' is replaced by the target
+    // 'run': reach the target within one run; 'total': count across runs
+    scope: 'run' | 'total';
+    target: (level: number) => number; // level rises with every ACTIVE_MISSIONS completed
+    measure: (world: WorldState) => number; // progress of the run so far
+}
+
+const grow = (base: number, step: number) => (level: number) => base + step * level;
+
+export const MISSION_KINDS: Record<string, MissionKind> = {
+    coins: { icon: '🪙', text: 'missionCoins', scope: 'run', target: grow(30, 10), measure: (w) => w.stats.coins },
+    coinsTotal: { icon: '💰', text: 'missionCoinsTotal', scope: 'total', target: grow(100, 50), measure: (w) => w.stats.coins },
+    magnets: { icon: '🧲', text: 'missionMagnets', scope: 'total', target: grow(2, 1), measure: (w) => w.stats.powerUps.magnet },
+    chillies: { icon: '🌶️', text: 'missionChillies', scope: 'total', target: grow(3, 2), measure: (w) => w.stats.powerUps.chilly },
+    jumps: { icon: '⬆️', text: 'missionJumps', scope: 'run', target: grow(15, 5), measure: (w) => w.stats.jumps },
+    slides: { icon: '⬇️', text: 'missionSlides', scope: 'run', target: grow(10, 5), measure: (w) => w.stats.slides },
+    laneChanges: { icon: '↔️', text: 'missionLaneChanges', scope: 'total', target: grow(50, 25), measure: (w) => w.stats.laneChanges },
+    distance: { icon: '🏃', text: 'missionDistance', scope: 'run', target: grow(1000, 500), measure: (w) => Math.floor(w.distance) },
+    survive: { icon: '⏱️', text: 'missionSurvive', scope: 'run', target: grow(60, 20), measure: (w) => Math.floor(w.time) },
+    speedTier: {
+        icon: '🚀',
+        text: 'missionSpeedTier',
+        scope: 'run',
+        target: (level) => Math.min(MAX_TIER + 1, 3 + level),
+        measure: (w) => difficultyTier(w.baseSpeed) + 1,
+    },
+};
+
+// Deals missions until ACTIVE_MISSIONS are active, never two of the same kind
+export function dealMissions(missions: Missions): Missions {
+    const active = missions.active.filter((m) => MISSION_KINDS[m.kind]).slice(0, ACTIVE_MISSIONS);
+    let nextId = missions.nextId;
+    while (active.length < ACTIVE_MISSIONS) {
+        const kinds = Object.keys(MISSION_KINDS).filter((kind) => !active.some((m) => m.kind === kind));
+        const kind = kinds[Math.floor(Math.random() * kinds.length)];
+        const level = Math.floor(missions.completed / ACTIVE_MISSIONS);
+        active.push({ id: nextId++, kind, target: MISSION_KINDS[kind].target(level), progress: 0 });
+    }
+    return { ...missions, active, nextId };
+}
+
+const needsDealing = ({ active }: Missions) => active.length !== ACTIVE_MISSIONS || active.some((m) => !MISSION_KINDS[m.kind]);
+
+// Where each active mission's count stood when it started taking part in the current run
+let trackedWorld: WorldState | null = null;
+const baselines = new Map<number, number>();
+
+const runProgress = (mission: MissionRecord, world: WorldState) => {
+    // Missions active when the run started count all of it; ones dealt mid-run start from then
+    if (world !== trackedWorld) {
+        trackedWorld = world;
+        baselines.clear();
+        useProfileStore.getState().profile.missions.active.forEach((m) => baselines.set(m.id, 0));
+    }
+    const kind = MISSION_KINDS[mission.kind];
+    if (!baselines.has(mission.id)) baselines.set(mission.id, kind.measure(world));
+    return kind.measure(world) - (baselines.get(mission.id) ?? 0);
+};
+
+// Progress including the run so far
+export const missionProgress = (mission: MissionRecord, world: WorldState | null) => {
+    const run = world ? runProgress(mission, world) : 0;
+    return MISSION_KINDS[mission.kind].scope === 'total' ? mission.progress + run : Math.max(mission.progress, run);
+};
+
+/**
+ * Completes every active mission the run has just reached, with a toast for each,
+ * and deals replacements. Called after each step of a live run.
+ */
+export function checkMissions(world: WorldState) {
+    const { profile, update } = useProfileStore.getState();
+    const done = profile.missions.active.filter((m) => MISSION_KINDS[m.kind] && missionProgress(m, world) >= m.target);
+    if (done.length === 0) return;
+
+    update(({ missions }) => ({
+        missions: dealMissions({
+            ...missions,
+            active: missions.active.filter((m) => !done.some((d) => d.id === m.id)),
+            completed: missions.completed + done.length,
+        }),
+    }));
+    done.forEach((m) => pushToast({ icon: MISSION_KINDS[m.kind].icon, title: 'missionComplete', text: MISSION_KINDS[m.kind].text, count: m.target }));
+}
+
+// Commits a finished run's progress to the missions that are still open
+export function recordMissionProgress(missions: Missions, world: WorldState): Missions {
+    return {
+        ...missions,
+        active: missions.active.map((m) => (MISSION_KINDS[m.kind] ? { ...m, progress: Math.min(m.target, missionProgress(m, world)) } : m)),
+    };
+}
+
+// A new or imported profile gets its missions dealt straight away
+const dealIfNeeded = () => {
+    const { profile, update } = useProfileStore.getState();
+    if (needsDealing(profile.missions)) update(({ missions }) => ({ missions: dealMissions(missions) }));
+};
+
+if (typeof window !== 'undefined') {
+    dealIfNeeded();
+    useProfileStore.subscribe(({ profile }, previous) => {
+        if (profile.missions !== previous.profile.missions) dealIfNeeded();
+    });
+}
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { emptyProfile, encodeProfile, loadProfile, migrateProfile, parseProfile, PROFILE_VERSION, ProfileError, ProfileErrorReason } from './profile';
+
+const rejects = (text: string, reason: ProfileErrorReason) =>
+    assert.throws(() => parseProfile(text), (err) => err instanceof ProfileError && err.reason === reason);
+
+// A localStorage for the duration of one test, seeded with `items`
+const withStorage = (items: Record<string, string>, body: (storage: Map<string, string>) => void) => {
+    const storage = new Map(Object.entries(items));
+    const globals = globalThis as Record<string, unknown>;
+    globals.window = globalThis;
+    globals.localStorage = {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, String(value)),
+    };
+    try {
+        body(storage);
+    } finally {
+        delete globals.window;
+        delete globals.localStorage;
+    }
+};
+
+test('a legacy version 0 document is migrated to the current version', () => {
+    const profile = migrateProfile({
+        version: 0,
+        highScore: 1200,
+        dailyScores: { '2026-03-04': 450, yesterday: 90 },
+        settings: { language: 'de' },
+    });
+    assert.equal(profile.version, PROFILE_VERSION);
+    assert.deepEqual(profile.highScores, { endless: 1200, daily: { '2026-03-04': 450 } });
+    assert.deepEqual(profile.settings, { language: 'de' });
+    assert.deepEqual(profile.stats.deaths, {});
+    assert.deepEqual(profile.missions, { active: [], completed: 0, nextId: 1 });
+});
+
+test('separate chilly and magnet totals become per-type power-up counts', () => {
+    const profile = migrateProfile({ ...emptyProfile(), version: 6, stats: { runs: 3, chillies: 4, magnets: 2 } });
+    assert.deepEqual(profile.stats.powerUps, { chilly: 4, magnet: 2 });
+    assert.equal(profile.stats.runs, 3);
+});
+
+test('an exported profile loads back from its text code and its file', () => {
+    const profile = { ...emptyProfile(), currency: 75, unlocks: ['tophat'] };
+    assert.deepEqual(parseProfile(encodeProfile(profile)), profile);
+    assert.deepEqual(parseProfile(JSON.stringify(profile)), profile);
+});
+
+test('a profile from a newer version of the game is rejected', () => {
+    rejects(JSON.stringify({ ...emptyProfile(), version: PROFILE_VERSION + 1 }), 'version');
+});
+
+test('input that is not a profile, or has no valid version, is rejected', () => {
+    rejects('hamster', 'notAFile');
+    rejects('HAMSTER:not base64!', 'notAFile');
+    rejects('null', 'corrupted');
+    rejects('[1, 2]', 'corrupted');
+    rejects(JSON.stringify({ ...emptyProfile(), version: '7' }), 'corrupted');
+    rejects(JSON.stringify({ ...emptyProfile(), version: 0 }), 'corrupted');
+});
+
+test('damaged fields are emptied without losing the rest', () => {
+    const profile = parseProfile(JSON.stringify({ ...emptyProfile(), currency: -5, unlocks: ['tophat', 3], highScores: { endless: 900, daily: null } }));
+    assert.equal(profile.currency, 0);
+    assert.deepEqual(profile.unlocks, ['tophat']);
+    assert.deepEqual(profile.highScores, { endless: 900, daily: {} });
+});
+
+test('an unreadable saved profile is backed up and legacy progress salvaged', () => {
+    withStorage({ hamsterProfile: '{"version": 7, "curr', hamsterHighScore: '640' }, (storage) => {
+        const profile = loadProfile();
+        assert.equal(storage.get('hamsterProfileBackup'), '{"version": 7, "curr');
+        assert.equal(profile.version, PROFILE_VERSION);
+        assert.equal(profile.highScores.endless, 640);
+    });
+});
+
+test('a saved profile without a version is backed up and play starts fresh', () => {
+    withStorage({ hamsterProfile: '{"currency": 40}' }, (storage) => {
+        assert.deepEqual({ ...loadProfile(), updatedAt: null }, { ...emptyProfile(), updatedAt: null });
+        assert.equal(storage.get('hamsterProfileBackup'), '{"currency": 40}');
+    });
+});
@@ -0,0 +1,366 @@
+import { create } from 'zustand';
+import type { Settings } from './settings';
+import type { WorldState } from './sim';
+
+// Everything the player keeps between runs, saved as one versioned document
+
+export interface HighScores {
+    endless: number;
+    daily: Record<string, number>; // best score per UTC day
+}
+
+export interface LifetimeStats {
+    runs: number;
+    totalScore: number;
+    distance: number; // world units
+    playTime: number; // seconds of game time
+    coins: number;
+    powerUps: Record<string, number>; // pickups per power-up type
+    jumps: number;
+    slides: number;
+    laneChanges: number;
+    nearMisses: number;
+    bestDistance: number; // longest single run, world units
+    longestRun: number; // seconds
+    maxSpeed: number; // world units per tick
+    deaths: Record<string, number>; // crashes per obstacle type
+    recentScores: number[]; // oldest first, at most RECENT_SCORES
+}
+
+export interface AchievementRecord {
+    progress: number; // best progress towards the goal so far
+    unlockedAt: string | null; // ISO date
+}
+
+export interface MissionRecord {
+    id: number; // unique per profile, from Missions.nextId
+    kind: string; // a MISSION_KINDS key in missions.ts
+    target: number;
+    progress: number; // committed at the end of each run
+}
+
+export interface Missions {
+    active: MissionRecord[];
+    completed: number; // lifetime count; later missions ask for more
+    nextId: number;
+}
+
+export interface Profile {
+    version: number; // PROFILE_VERSION the document was written with
+    highScores: HighScores;
+    stats: LifetimeStats;
+    achievements: Record<string, AchievementRecord>; // keyed by achievement id
+    missions: Missions;
+    unlocks: string[]; // ids of bought cosmetics
+    equipped: Record<string, string>; // cosmetic id per slot, validated by cosmetics.ts
+    currency: number; // banked coins
+    settings: Partial<Settings>; // validated field by field by the settings store
+    updatedAt: string; // ISO date
+}
+
+export const PROFILE_VERSION = 7;
+
+export const RECENT_SCORES = 30;
+
+const PROFILE_KEY = 'hamsterProfile';
+const BACKUP_KEY = 'hamsterProfileBackup'; // last unreadable document, kept for manual recovery
+const EXPORT_PREFIX = 'HAMSTER:'; // marks a profile copied as a text code
+
+// Keys used before the profile document existed
+const LEGACY_KEYS = {
+    highScore: 'hamsterHighScore',
+    dailyScores: 'hamsterDailyScores',
+    settings: 'hamsterSettings',
+    quality: 'hamsterQuality', // { setting, autoLevel } before settings; only `setting` is imported
+};
+
+export const emptyStats = (): LifetimeStats => ({
+    runs: 0,
+    totalScore: 0,
+    distance: 0,
+    playTime: 0,
+    coins: 0,
+    powerUps: {},
+    jumps: 0,
+    slides: 0,
+    laneChanges: 0,
+    nearMisses: 0,
+    bestDistance: 0,
+    longestRun: 0,
+    maxSpeed: 0,
+    deaths: {},
+    recentScores: [],
+});
+
+export const emptyProfile = (): Profile => ({
+    version: PROFILE_VERSION,
+    highScores: { endless: 0, daily: {} },
+    stats: emptyStats(),
+    achievements: {},
+    missions: { active: [], completed: 0, nextId: 1 },
+    unlocks: [],
+    equipped: {},
+    currency: 0,
+    settings: {},
+    updatedAt: new Date().toISOString(),
+});
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const count = (value: unknown) => (isCount(value) ? value : 0);
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const recordOf = (value: unknown) => (isRecord(value) ? value : {});
+
+// A saved document of any version, before it is validated
+type ProfileDocument = Record<string, unknown>;
+
+// Each migration upgrades a document from the version it is keyed by to the next one
+const MIGRATIONS: Record<number, (doc: ProfileDocument) => ProfileDocument> = {
+    // 0: the loose legacy keys, gathered by readLegacy
+    0: (doc) => ({
+        version: 1,
+        highScores: { endless: doc.highScore, daily: doc.dailyScores },
+        stats: {},
+        unlocks: [],
+        currency: 0,
+        settings: doc.settings,
+    }),
+    // 1: stats only counted runs, score, distance and time; older runs have no history
+    1: (doc) => ({
+        ...doc,
+        version: 2,
+        stats: { ...recordOf(doc.stats), deaths: {}, recentScores: [] },
+    }),
+    // 2: before achievements
+    2: (doc) => ({ ...doc, version: 3, achievements: {} }),
+    // 3: before missions; the first three are dealt on load
+    3: (doc) => ({ ...doc, version: 4, missions: { active: [], completed: 0, nextId: 1 } }),
+    // 4: before the shop; everything starts with the free cosmetics
+    4: (doc) => ({ ...doc, version: 5, equipped: {} }),
+    // 5: before near misses were counted
+    5: (doc) => ({ ...doc, version: 6, stats: { ...recordOf(doc.stats), nearMisses: 0 } }),
+    // 6: only chillies and magnets were counted, as separate totals
+    6: (doc) => {
+        const { chillies, magnets, ...stats } = recordOf(doc.stats);
+        return { ...doc, version: 7, stats: { ...stats, powerUps: { chilly: chillies, magnet: magnets } } };
+    },
+};
+
+/**
+ * Validates a document of the current version field by field. Anything malformed is
+ * replaced by its empty value, so one damaged field never costs the rest of the progress.
+ */
+export function sanitizeProfile(doc: unknown): Profile {
+    const d = isRecord(doc) ? doc : {};
+    const highScores = isRecord(d.highScores) ? d.highScores : {};
+    const daily = isRecord(highScores.daily) ? highScores.daily : {};
+    const stats = isRecord(d.stats) ? d.stats : {};
+    const deaths = isRecord(stats.deaths) ? stats.deaths : {};
+    const powerUps = isRecord(stats.powerUps) ? stats.powerUps : {};
+    const achievements = isRecord(d.achievements) ? d.achievements : {};
+    const missions = isRecord(d.missions) ? d.missions : {};
+    return {
+        version: PROFILE_VERSION,
+        highScores: {
+            endless: count(highScores.endless),
+            daily: Object.fromEntries(Object.entries(daily).filter(([day, score]) => /^\d{4}-\d{2}-\d{2}$/.test(day) && isCount(score))) as Record<string, number>,
+        },
+        stats: {
+            runs: count(stats.runs),
+            totalScore: count(stats.totalScore),
+            distance: count(stats.distance),
+            playTime: count(stats.playTime),
+            coins: count(stats.coins),
+            powerUps: Object.fromEntries(Object.entries(powerUps).filter(([, n]) => isCount(n))) as Record<string, number>,
+            jumps: count(stats.jumps),
+            slides: count(stats.slides),
+            laneChanges: count(stats.laneChanges),
+            nearMisses: count(stats.nearMisses),
+            bestDistance: count(stats.bestDistance),
+            longestRun: count(stats.longestRun),
+            maxSpeed: count(stats.maxSpeed),
+            deaths: Object.fromEntries(Object.entries(deaths).filter(([, n]) => isCount(n))) as Record<string, number>,
+            recentScores: Array.isArray(stats.recentScores) ? stats.recentScores.filter(isCount).slice(-RECENT_SCORES) : [],
+        },
+        achievements: Object.fromEntries(
+            Object.entries(achievements).filter((entry): entry is [string, Record<string, unknown>] => isRecord(entry[1])).map(([id, record]) => [id, {
+                progress: count(record.progress),
+                unlockedAt: typeof record.unlockedAt === 'string' ? record.unlockedAt : null,
+            }]),
+        ),
+        missions: {
+            active: (Array.isArray(missions.active) ? missions.active : [])
+                .filter((m): m is Record<string, unknown> => isRecord(m) && Number.isInteger(m.id) && typeof m.kind === 'string' && isCount(m.target))
+                .map((m) => ({ id: m.id as number, kind: m.kind as string, target: m.target as number, progress: count(m.progress) })),
+            completed: count(missions.completed),
+            nextId: Number.isInteger(missions.nextId) && (missions.nextId as number) > 0 ? (missions.nextId as number) : 1,
+        },
+        unlocks: Array.isArray(d.unlocks) ? d.unlocks.filter((id): id is string => typeof id === 'string') : [],
+        equipped: isRecord(d.equipped)
+            ? Object.fromEntries(Object.entries(d.equipped).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+            : {},
+        currency: count(d.currency),
+        settings: isRecord(d.settings) ? d.settings : {},
+        updatedAt: typeof d.updatedAt === 'string' ? d.updatedAt : new Date().toISOString(),
+    };
+}
+
+export type ProfileErrorReason = 'notAFile' | 'corrupted' | 'version';
+
+// Why a profile could not be read; the reason picks the message shown to the player
+export class ProfileError extends Error {
+    constructor(readonly reason: ProfileErrorReason, message: string) {
+        super(message);
+        this.name = 'ProfileError';
+    }
+}
+
+// Runs every migration from the document's version up to the current one
+export function migrateProfile(doc: ProfileDocument): Profile {
+    let current = doc;
+    while (typeof current.version === 'number' && current.version < PROFILE_VERSION) {
+        const migrate = MIGRATIONS[current.version];
+        if (!migrate) throw new ProfileError('corrupted', `No migration from profile version ${current.version}`);
+        current = migrate(current);
+    }
+    return sanitizeProfile(current);
+}
+
+// Adds a finished run to the lifetime totals
+export function addRun(stats: LifetimeStats, score: number, world: WorldState | null): LifetimeStats {
+    const run = world?.stats;
+    const distance = world?.distance ?? 0;
+    const time = world?.time ?? 0;
+    const cause = run?.causeOfDeath;
+    return {
+        runs: stats.runs + 1,
+        totalScore: stats.totalScore + score,
+        distance: stats.distance + distance,
+        playTime: stats.playTime + time,
+        coins: stats.coins + (run?.coins ?? 0),
+        powerUps: Object.entries(run?.powerUps ?? {}).reduce(
+            (totals, [type, n]) => (n ? { ...totals, [type]: (totals[type] ?? 0) + n } : totals),
+            stats.powerUps,
+        ),
+        jumps: stats.jumps + (run?.jumps ?? 0),
+        slides: stats.slides + (run?.slides ?? 0),
+        laneChanges: stats.laneChanges + (run?.laneChanges ?? 0),
+        nearMisses: stats.nearMisses + (run?.nearMisses ?? 0),
+        bestDistance: Math.max(stats.bestDistance, distance),
+        longestRun: Math.max(stats.longestRun, time),
+        maxSpeed: Math.max(stats.maxSpeed, run?.maxSpeed ?? 0),
+        deaths: cause ? { ...stats.deaths, [cause]: (stats.deaths[cause] ?? 0) + 1 } : stats.deaths,
+        recentScores: [...stats.recentScores, score].slice(-RECENT_SCORES),
+    };
+}
+
+const readJson = (key: string): unknown => {
+    try {
+        return JSON.parse(localStorage.getItem(key) || 'null');
+    } catch {
+        return null;
+    }
+};
+
+// Progress saved before profiles, as a version 0 document; null on a fresh browser
+const readLegacy = () => {
+    const highScore = parseInt(localStorage.getItem(LEGACY_KEYS.highScore) || '0');
+    const dailyScores = readJson(LEGACY_KEYS.dailyScores);
+    const settings = readJson(LEGACY_KEYS.settings);
+    const legacyQuality = readJson(LEGACY_KEYS.quality);
+    const quality = isRecord(legacyQuality) && typeof legacyQuality.setting === 'string' ? legacyQuality.setting : null;
+    if (!highScore && !dailyScores && !settings && !quality) return null;
+    return {
+        version: 0,
+        highScore: Number.isNaN(highScore) ? 0 : highScore,
+        dailyScores,
+        // Quality was saved on its own before the settings document existed
+        settings: {
+            ...(quality ? { quality } : {}),
+            ...(isRecord(settings) && isRecord(settings.settings) ? settings.settings : {}),
+        },
+    };
+};
+
+/**
+ * Parses a profile from an exported file or text code. Throws a ProfileError
+ * when it is not a profile, is damaged or comes from a newer game.
+ */
+export function parseProfile(text: string): Profile {
+    const trimmed = text.trim();
+    let doc: unknown;
+    try {
+        const json = trimmed.startsWith(EXPORT_PREFIX)
+            ? new TextDecoder().decode(Uint8Array.from(atob(trimmed.slice(EXPORT_PREFIX.length)), (c) => c.charCodeAt(0)))
+            : trimmed;
+        doc = JSON.parse(json);
+    } catch {
+        throw new ProfileError('notAFile', 'Not a profile file or code');
+    }
+    if (!isRecord(doc) || !Number.isInteger(doc.version) || (doc.version as number) < 1) {
+        throw new ProfileError('corrupted', 'Profile has no valid version');
+    }
+    if ((doc.version as number) > PROFILE_VERSION) {
+        throw new ProfileError('version', `Profile version ${doc.version} is newer than ${PROFILE_VERSION}`);
+    }
+    return migrateProfile(doc);
+}
+
+export function serializeProfile(profile: Profile): string {
+    return JSON.stringify(profile);
+}
+
+// The profile as one line of text, for pasting into another browser
+export function encodeProfile(profile: Profile): string {
+    const bytes = new TextEncoder().encode(serializeProfile(profile));
+    return EXPORT_PREFIX + btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+}
+
+// Loads the saved profile, upgrading old documents and legacy keys; an unreadable
+// document is set aside under BACKUP_KEY and the game starts from what can be salvaged
+export function loadProfile(): Profile {
+    if (typeof window === 'undefined') return emptyProfile();
+
+    const stored = localStorage.getItem(PROFILE_KEY);
+    if (!stored) {
+        const legacy = readLegacy();
+        return legacy ? migrateProfile(legacy) : emptyProfile();
+    }
+
+    try {
+        const doc: unknown = JSON.parse(stored);
+        if (!isRecord(doc) || !Number.isInteger(doc.version)) throw new ProfileError('corrupted', 'Profile has no valid version');
+        // A document from a newer build is read as the current version rather than discarded
+        return (doc.version as number) > PROFILE_VERSION ? sanitizeProfile(doc) : migrateProfile(doc);
+    } catch {
+        localStorage.setItem(BACKUP_KEY, stored);
+        const legacy = readLegacy();
+        return legacy ? migrateProfile(legacy) : emptyProfile();
+    }
+}
+
+const saveProfile = (profile: Profile) => {
+    if (typeof window !== 'undefined') localStorage.setItem(PROFILE_KEY, serializeProfile(profile));
+};
+
+interface ProfileState {
+    profile: Profile;
+    update: (change: (profile: Profile) => Partial<Profile>) => void;
+    replace: (profile: Profile) => void;
+}
+
+export const useProfileStore = create<ProfileState>((set, get) => ({
+    profile: loadProfile(),
+
+    update: (change) => {
+        const current = get().profile;
+        const profile = { ...current, ...change(current), updatedAt: new Date().toISOString() };
+        saveProfile(profile);
+        set({ profile });
+    },
+
+    // Imported progress takes over the whole document
+    replace: (profile) => {
+        saveProfile(profile);
+        set({ profile });
+    },
+}));
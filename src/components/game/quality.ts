@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import { currentSettings, useSettingsStore } from './settings';
+
+export type QualityLevel = 'low' | 'medium' | 'high';
+export type QualitySetting = QualityLevel | 'auto';
+
+export interface QualityPreset {
+    shadows: boolean;
+    shadowMapSize: number;
+    dpr: [number, number]; // device pixel ratio range handed to the canvas
+    extraLights: boolean; // hemisphere fill and the boost jet's glow
+    scenery: number; // fraction of the roadside trees and props drawn
+    particles: number; // fraction of the rain, snow, shards and trail puffs drawn
+    effects: boolean; // screen-space extras such as the scanline overlay
+}
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high'];
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+    low: { shadows: false, shadowMapSize: 512, dpr: [0.75, 1], extraLights: false, scenery: 0.4, particles: 0.3, effects: false },
+    medium: { shadows: true, shadowMapSize: 1024, dpr: [1, 1.5], extraLights: true, scenery: 0.7, particles: 0.6, effects: true },
+    high: { shadows: true, shadowMapSize: 2048, dpr: [1, 2], extraLights: true, scenery: 1, particles: 1, effects: true },
+};
+
+// Auto steps down a level when a sample of frames averages below this
+export const AUTO_MIN_FPS = 45;
+export const AUTO_SAMPLE_SECONDS = 3;
+
+// Where Auto has settled is device state rather than a preference, so it is kept apart from
+// settings, under its own key (the old 'hamsterQuality' is only read as a legacy setting)
+const AUTO_LEVEL_KEY = 'hamsterAutoQuality';
+
+interface QualityState {
+    autoLevel: QualityLevel; // kept so a slow device starts at its level next time
+    stepDown: () => void;
+    resetAuto: () => void;
+}
+
+const isLevel = (value: unknown): value is QualityLevel => QUALITY_LEVELS.includes(value as QualityLevel);
+
+const loadAutoLevel = (): QualityLevel => {
+    if (typeof window === 'undefined') return 'high';
+    try {
+        const parsed = JSON.parse(localStorage.getItem(AUTO_LEVEL_KEY) || '{}');
+        return isLevel(parsed.autoLevel) ? parsed.autoLevel : 'high';
+    } catch {
+        return 'high';
+    }
+};
+
+const saveAutoLevel = (autoLevel: QualityLevel) => {
+    if (typeof window !== 'undefined') localStorage.setItem(AUTO_LEVEL_KEY, JSON.stringify({ autoLevel }));
+};
+
+export const useQualityStore = create<QualityState>((set, get) => ({
+    autoLevel: loadAutoLevel(),
+
+    stepDown: () => {
+        const index = QUALITY_LEVELS.indexOf(get().autoLevel);
+        if (currentSettings().quality !== 'auto' || index === 0) return;
+        const next = QUALITY_LEVELS[index - 1];
+        saveAutoLevel(next);
+        set({ autoLevel: next });
+    },
+
+    // Picking Auto again gives the device another chance at the top level
+    resetAuto: () => {
+        saveAutoLevel('high');
+        set({ autoLevel: 'high' });
+    },
+}));
+
+export const qualityLevel = (setting: QualitySetting, autoLevel: QualityLevel): QualityLevel =>
+    setting === 'auto' ? autoLevel : setting;
+
+// The preset in effect, for components that re-render when it changes
+export const useQuality = (): QualityPreset => {
+    const setting = useSettingsStore((s) => s.quality);
+    const autoLevel = useQualityStore((s) => s.autoLevel);
+    return QUALITY_PRESETS[qualityLevel(setting, autoLevel)];
+};
+
+// The preset in effect, for per-frame code
+export const currentQuality = (): QualityPreset =>
+    QUALITY_PRESETS[qualityLevel(currentSettings().quality, useQualityStore.getState().autoLevel)];
@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import { useProfileStore } from './profile';
+import type { QualitySetting } from './quality';
+
+export type ControlScheme = 'zones' | 'swipe';
+export type Language = 'en' | 'es' | 'de';
+
+export interface Settings {
+    musicVolume: number; // 0..1
+    sfxVolume: number; // 0..1
+    muted: boolean;
+    haptics: boolean;
+    screenShake: boolean;
+    quality: QualitySetting;
+    controlScheme: ControlScheme; // touch: tap zones (swipe down slides) or swipes for everything
+    language: Language;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+    musicVolume: 0.8,
+    sfxVolume: 1,
+    muted: false,
+    haptics: true,
+    screenShake: true,
+    quality: 'auto',
+    controlScheme: 'zones',
+    language: 'en',
+};
+
+export const CONTROL_SCHEMES: ControlScheme[] = ['zones', 'swipe'];
+export const LANGUAGES: Language[] = ['en', 'es', 'de'];
+const QUALITY_SETTINGS: QualitySetting[] = ['auto', 'low', 'medium', 'high'];
+
+const volume = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+const flag = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+const oneOf = <T>(options: readonly T[], value: unknown, fallback: T) => (options.includes(value as T) ? (value as T) : fallback);
+
+// Keeps every valid field of a stored document and defaults the rest
+export function sanitizeSettings(raw: unknown): Settings {
+    const s = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+    const d = DEFAULT_SETTINGS;
+    return {
+        musicVolume: volume(s.musicVolume, d.musicVolume),
+        sfxVolume: volume(s.sfxVolume, d.sfxVolume),
+        muted: flag(s.muted, d.muted),
+        haptics: flag(s.haptics, d.haptics),
+        screenShake: flag(s.screenShake, d.screenShake),
+        quality: oneOf(QUALITY_SETTINGS, s.quality, d.quality),
+        controlScheme: oneOf(CONTROL_SCHEMES, s.controlScheme, d.controlScheme),
+        language: oneOf(LANGUAGES, s.language, d.language),
+    };
+}
+
+interface SettingsState extends Settings {
+    update: (changes: Partial<Settings>) => void;
+    reset: () => void;
+}
+
+// Settings are saved in the player profile
+const saveSettings = (settings: Settings) => useProfileStore.getState().update(() => ({ settings }));
+
+export const useSettingsStore = create<SettingsState>((set, get) => ({
+    ...sanitizeSettings(useProfileStore.getState().profile.settings),
+
+    update: (changes) => {
+        const { update, reset, ...current } = get();
+        const next = sanitizeSettings({ ...current, ...changes });
+        saveSettings(next);
+        set(next);
+    },
+
+    reset: () => {
+        saveSettings(DEFAULT_SETTINGS);
+        set(DEFAULT_SETTINGS);
+    },
+}));
+
+// Current settings for code outside React (audio, haptics, per-frame checks)
+export const currentSettings = (): Settings => useSettingsStore.getState();
+
+// An imported profile brings its own settings
+useProfileStore.subscribe(({ profile }, previous) => {
+    if (profile.settings !== previous.profile.settings) useSettingsStore.setState(sanitizeSettings(profile.settings));
+});
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { CHUNKS } from './chunks';
+import { validateChunks } from './patterns';
+
+test('the chunk library has no problems', () => {
+    assert.deepEqual(validateChunks(CHUNKS), []);
+});
+
+test('broken chunks are reported', () => {
+    const problems = validateChunks([
+        ...CHUNKS,
+        { id: 'lone-rock', minTier: 3, maxTier: 1, weight: 0, items: [{ type: 'rock', lane: 3, offset: -1 }] },
+    ]);
+    assert.deepEqual(problems, [
+        'lone-rock: duplicate id',
+        'lone-rock: weight must be positive',
+        'lone-rock: minTier above maxTier',
+        'lone-rock[0]: invalid lane 3',
+        'lone-rock[0]: offset must be >= 0',
+    ]);
+});
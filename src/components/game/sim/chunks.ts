@@ -0,0 +1,205 @@
+import { ChunkDefinition, ChunkItem, ChunkLane } from './patterns';
+import { ObstacleType } from './types';
+
+// Evenly spaced run of one item type, e.g. a coin trail
+const trail = (type: ObstacleType, lane: ChunkLane, count: number, start = 0, spacing = 3): ChunkItem[] =>
+    Array.from({ length: count }, (_, i) => ({ type, lane, offset: start + i * spacing }));
+
+/**
+ * Authored obstacle patterns. Offsets are in world units behind the chunk start;
+ * lanes are 0 (left) to 2 (right) or 'any'. Chunks are mirrored at random unless
+ * `mirror: false`. Tune weights and tiers here; the spawner just stitches them.
+ */
+export const CHUNKS: ChunkDefinition[] = [
+    // Tier 0: single decisions
+    {
+        id: 'lone-rock',
+        minTier: 0,
+        weight: 4,
+        items: [{ type: 'rock', lane: 'any', offset: 0 }],
+    },
+    {
+        id: 'coin-trail',
+        minTier: 0,
+        weight: 3,
+        items: trail('coin', 'any', 4),
+    },
+    {
+        id: 'power-up',
+        minTier: 0,
+        weight: 1.7,
+        items: [{ type: 'powerUp', lane: 'any', offset: 0 }],
+    },
+    {
+        id: 'rock-then-coins',
+        minTier: 0,
+        weight: 2,
+        items: [
+            { type: 'rock', lane: 'any', offset: 0 },
+            ...trail('coin', 'any', 3, 6),
+        ],
+    },
+
+    // Tier 1: two-lane blocks and lane-change rewards
+    {
+        id: 'rock-pair',
+        minTier: 1,
+        weight: 2.5,
+        items: [
+            { type: 'rock', lane: 0, offset: 0 },
+            { type: 'rock', lane: 1, offset: 0 },
+        ],
+    },
+    {
+        id: 'zigzag-coins',
+        minTier: 1,
+        weight: 2,
+        items: [
+            { type: 'coin', lane: 0, offset: 0 },
+            { type: 'coin', lane: 1, offset: 4 },
+            { type: 'coin', lane: 2, offset: 8 },
+            { type: 'coin', lane: 1, offset: 12 },
+            { type: 'coin', lane: 0, offset: 16 },
+        ],
+    },
+    {
+        id: 'guarded-coins',
+        minTier: 1,
+        weight: 2,
+        mirror: false,
+        items: [
+            { type: 'rock', lane: 0, offset: 0 },
+            { type: 'rock', lane: 2, offset: 0 },
+            ...trail('coin', 1, 3),
+        ],
+    },
+
+    {
+        id: 'low-branch',
+        minTier: 1,
+        weight: 2,
+        items: [{ type: 'branch', lane: 'any', offset: 0 }],
+    },
+    {
+        id: 'lone-log',
+        minTier: 1,
+        weight: 1.5,
+        items: [{ type: 'log', lane: 'any', offset: 0 }],
+    },
+
+    // Tier 2: sequences that need planning
+    {
+        id: 'slalom',
+        minTier: 2,
+        weight: 2,
+        items: [
+            { type: 'rock', lane: 0, offset: 0 },
+            { type: 'rock', lane: 1, offset: 0 },
+            { type: 'rock', lane: 1, offset: 14 },
+            { type: 'rock', lane: 2, offset: 14 },
+        ],
+    },
+    {
+        id: 'boost-run',
+        minTier: 2,
+        weight: 0.8,
+        items: [
+            { type: 'chilly', lane: 'any', offset: 0 },
+            ...trail('coin', 'any', 5, 5),
+        ],
+    },
+    {
+        id: 'staircase',
+        minTier: 2,
+        weight: 1.5,
+        items: [
+            { type: 'rock', lane: 0, offset: 0 },
+            { type: 'rock', lane: 1, offset: 8 },
+            { type: 'rock', lane: 2, offset: 16 },
+        ],
+    },
+
+    {
+        id: 'jump-duck-dodge',
+        minTier: 2,
+        weight: 1.5,
+        items: [
+            { type: 'rock', lane: 0, offset: 0 },
+            { type: 'branch', lane: 1, offset: 0 },
+            { type: 'log', lane: 2, offset: 0 },
+        ],
+    },
+    {
+        id: 'branch-tunnel',
+        minTier: 2,
+        weight: 1,
+        mirror: false,
+        items: [
+            { type: 'log', lane: 0, offset: 0 },
+            { type: 'log', lane: 2, offset: 0 },
+            { type: 'branch', lane: 1, offset: 0 },
+            { type: 'coin', lane: 1, offset: 3 },
+            { type: 'branch', lane: 1, offset: 6 },
+        ],
+    },
+
+    // Tier 3+: full rows
+    {
+        id: 'rock-row',
+        minTier: 3,
+        weight: 1,
+        mirror: false,
+        items: [
+            { type: 'rock', lane: 0, offset: 0 },
+            { type: 'rock', lane: 1, offset: 0 },
+            { type: 'rock', lane: 2, offset: 0 },
+        ],
+    },
+    {
+        id: 'row-with-reward',
+        minTier: 3,
+        weight: 1,
+        mirror: false,
+        items: [
+            { type: 'rock', lane: 0, offset: 0 },
+            { type: 'rock', lane: 1, offset: 0 },
+            { type: 'rock', lane: 2, offset: 0 },
+            ...trail('coin', 1, 3, 5),
+        ],
+    },
+    {
+        id: 'branch-row',
+        minTier: 3,
+        weight: 1,
+        mirror: false,
+        items: [
+            { type: 'branch', lane: 0, offset: 0 },
+            { type: 'branch', lane: 1, offset: 0 },
+            { type: 'branch', lane: 2, offset: 0 },
+        ],
+    },
+    {
+        id: 'jump-then-slide',
+        minTier: 4,
+        weight: 0.8,
+        mirror: false,
+        items: [
+            { type: 'rock', lane: 0, offset: 0 },
+            { type: 'rock', lane: 1, offset: 0 },
+            { type: 'rock', lane: 2, offset: 0 },
+            { type: 'branch', lane: 0, offset: 12 },
+            { type: 'branch', lane: 1, offset: 12 },
+            { type: 'branch', lane: 2, offset: 12 },
+        ],
+    },
+    {
+        id: 'magnet-field',
+        minTier: 3,
+        weight: 0.6,
+        items: [
+            { type: 'magnet', lane: 'any', offset: 0 },
+            ...trail('coin', 0, 3, 6, 4),
+            ...trail('coin', 2, 3, 8, 4),
+        ],
+    },
+];
@@ -0,0 +1,58 @@
+import { LANES, OBSTACLE_HITBOXES, PLAYER_HITBOX, PLAYER_SLIDE_HITBOX } from './constants';
+import { HitboxSize, SimObstacle, SimPlayer } from './types';
+
+export interface Aabb {
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+    minZ: number;
+    maxZ: number;
+}
+
+function boxAt(size: HitboxSize, x: number, y: number, z: number): Aabb {
+    return {
+        minX: x - size.halfWidth,
+        maxX: x + size.halfWidth,
+        minY: y + size.bottom,
+        maxY: y + size.top,
+        minZ: z - size.halfDepth,
+        maxZ: z + size.halfDepth,
+    };
+}
+
+// The hamster at its actual position (mid-lane-change x, jump height), crouched while sliding
+export function playerBox(player: SimPlayer): Aabb {
+    return boxAt(player.sliding ? PLAYER_SLIDE_HITBOX : PLAYER_HITBOX, player.x, player.y, 0);
+}
+
+export function obstacleBox(obstacle: SimObstacle): Aabb {
+    return boxAt(OBSTACLE_HITBOXES[obstacle.type], LANES[obstacle.lane], 0, obstacle.z);
+}
+
+// Daylight from box a to box b in each direction; negative where a is not clear of b that way
+export interface Proximity {
+    beside: number;
+    above: number;
+    below: number;
+}
+
+export function proximity(a: Aabb, b: Aabb): Proximity {
+    return {
+        beside: Math.max(a.minX - b.maxX, b.minX - a.maxX),
+        above: a.minY - b.maxY,
+        below: b.minY - a.maxY,
+    };
+}
+
+export function overlapsX(a: Aabb, b: Aabb): boolean {
+    return a.minX < b.maxX && a.maxX > b.minX;
+}
+
+export function overlapsZ(a: Aabb, b: Aabb): boolean {
+    return a.minZ < b.maxZ && a.maxZ > b.minZ;
+}
+
+export function overlaps(a: Aabb, b: Aabb): boolean {
+    return a.minX < b.maxX && a.maxX > b.minX && a.minY < b.maxY && a.maxY > b.minY && overlapsZ(a, b);
+}
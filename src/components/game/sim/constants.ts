@@ -0,0 +1,96 @@
+import { Clearance, HitboxSize, ObstacleType, PowerUpDefinition, PowerUpType } from './types';
+
+// Bump whenever gameplay rules change; replays from other versions would desync
+export const SIM_VERSION = 9;
+
+// Track layout
+export const LANES = [-1.8, 0, 1.8];
+export const SPAWN_DISTANCE = -60;
+export const DESPAWN_DISTANCE = 8;
+
+// Player movement
+export const JUMP_HEIGHT = 2;
+export const JUMP_DURATION = 0.45; // seconds
+export const SLIDE_DURATION = 0.6; // seconds
+export const LANE_LERP = 0.15; // fraction of the remaining distance covered per 60 Hz tick
+
+// Speed progression
+export const START_SPEED = 0.12;
+export const MAX_BASE_SPEED = 0.4;
+export const MAX_SPEED = 0.6;
+export const SPEED_STEP = 0.003;
+export const SPEED_RAMP_INTERVAL = 5; // seconds
+export const CHUNKS_PER_SPEED_UP = 4;
+
+// Empty track between stitched chunks, shrinking by CHUNK_GAP_TIER_FACTOR per difficulty tier
+export const CHUNK_GAP_MIN = 8;
+export const CHUNK_GAP_MAX = 16;
+export const CHUNK_GAP_TIER_FACTOR = 0.1;
+
+// Unsurvivable chunks are re-picked this many times before their rocks get thinned out
+export const FAIRNESS_REROLLS = 3;
+
+// Power-ups: picking one up (re)starts its timer. Chunks place them through 'powerUp'
+// items, rolled by weight
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+    chilly: { duration: 4, weight: 4, speedFactor: 1.8 },
+    magnet: { duration: 8, weight: 2, magnet: true },
+    shield: { duration: 12, weight: 1.5, absorbs: ['rock'] },
+    doubler: { duration: 10, weight: 1.5, scoreFactor: 2 },
+    hourglass: { duration: 6, weight: 1.5, speedFactor: 0.6 },
+};
+
+// Scoring: a point per DISTANCE_PER_POINT units run, plus pickups at the combo multiplier.
+// Every COMBO_HITS_PER_STEP pickups without a COMBO_WINDOW-second gap raise it by one.
+export const DISTANCE_PER_POINT = 5;
+export const COMBO_WINDOW = 2.5; // seconds
+export const COMBO_HITS_PER_STEP = 5;
+export const COMBO_MAX_MULTIPLIER = 5;
+
+// A hazard got past with less than NEAR_MISS_GAP (set below, from the hitboxes) of daylight
+// beside or below the hamster is a near miss, worth NEAR_MISS_POINTS and counted towards the combo
+export const NEAR_MISS_POINTS = 10;
+
+export const POINTS: Record<ObstacleType, number> = {
+    rock: 0,
+    branch: 0,
+    log: 0,
+    coin: 5,
+    chilly: 2,
+    magnet: 3,
+    shield: 3,
+    doubler: 3,
+    hourglass: 3,
+};
+
+// Hitboxes, matched to the meshes in Player.tsx / Obstacles.tsx
+export const PLAYER_HITBOX: HitboxSize = { halfWidth: 0.35, bottom: 0, top: 0.95, halfDepth: 0.35 };
+export const PLAYER_SLIDE_HITBOX: HitboxSize = { ...PLAYER_HITBOX, top: 0.45 };
+export const OBSTACLE_HITBOXES: Record<ObstacleType, HitboxSize> = {
+    rock: { halfWidth: 0.5, bottom: 0, top: 0.8, halfDepth: 0.5 },
+    branch: { halfWidth: 0.85, bottom: 0.8, top: 2.4, halfDepth: 0.3 }, // bough plus the canopy above it
+    log: { halfWidth: 0.45, bottom: 0, top: 2.2, halfDepth: 0.45 },
+    coin: { halfWidth: 0.45, bottom: 0.05, top: 0.95, halfDepth: 0.4 },
+    chilly: { halfWidth: 0.4, bottom: 0.1, top: 0.9, halfDepth: 0.4 },
+    magnet: { halfWidth: 0.5, bottom: 0.05, top: 0.95, halfDepth: 0.4 },
+    shield: { halfWidth: 0.45, bottom: 0.05, top: 0.95, halfDepth: 0.4 },
+    doubler: { halfWidth: 0.45, bottom: 0.05, top: 0.95, halfDepth: 0.4 },
+    hourglass: { halfWidth: 0.35, bottom: 0.05, top: 0.95, halfDepth: 0.35 },
+};
+
+// Obstacles that end the run on contact; everything else is collected. The clearance
+// (which move gets past it in its lane) follows from the hitboxes and is what the
+// fairness solver plans with
+export const HAZARDS: Partial<Record<ObstacleType, Clearance>> = {
+    rock: 'jump',
+    branch: 'slide',
+    log: 'dodge',
+};
+
+// Running centred in the next lane leaves spacing - both half-widths beside a hazard, widest
+// for the narrowest one. Anything closer, with some slack for the lane lerp, is a near miss,
+// so passing any hazard from the next lane counts and one two lanes away never does
+const NEAR_MISS_SLACK = 0.1;
+export const NEAR_MISS_GAP = LANES[1] - LANES[0] - PLAYER_HITBOX.halfWidth
+    - Math.min(...(Object.keys(HAZARDS) as ObstacleType[]).map((type) => OBSTACLE_HITBOXES[type].halfWidth))
+    + NEAR_MISS_SLACK;
@@ -0,0 +1,47 @@
+import { LANES, START_SPEED } from './constants';
+import { createRng, deriveSeed, hashString } from './random';
+import { RunModifiers } from './types';
+
+// A daily modifier as shown in the menu; the UI translates each one
+export type ModifierLabel = 'noMagnets' | 'fastStart' | 'coinLaneLeft' | 'coinLaneCenter' | 'coinLaneRight';
+
+const COIN_LANE_LABELS: ModifierLabel[] = ['coinLaneLeft', 'coinLaneCenter', 'coinLaneRight'];
+
+// UTC calendar day, e.g. '2026-10-18'; everyone shares the same daily run
+export function dailyKey(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10);
+}
+
+export function dailySeed(key: string): number {
+    return hashString(`daily:${key}`);
+}
+
+/**
+ * Picks the day's modifiers from the daily seed. Each day gets one or two of:
+ * no magnets, a faster start or a lane where only coins spawn.
+ */
+export function dailyModifiers(key: string): RunModifiers {
+    const rng = createRng(deriveSeed(dailySeed(key), 'modifiers'));
+    const pool: ((mods: RunModifiers) => void)[] = [
+        (mods) => { mods.noMagnets = true; },
+        (mods) => { mods.startSpeed = START_SPEED * 1.5; },
+        (mods) => { mods.coinLane = rng.int(LANES.length); },
+    ];
+
+    const modifiers: RunModifiers = {};
+    const count = 1 + rng.int(2);
+    for (let i = 0; i < count; i++) {
+        const [apply] = pool.splice(rng.int(pool.length), 1);
+        apply(modifiers);
+    }
+    return modifiers;
+}
+
+// Short labels for the UI
+export function describeModifiers(modifiers: RunModifiers): ModifierLabel[] {
+    const labels: ModifierLabel[] = [];
+    if (modifiers.noMagnets) labels.push('noMagnets');
+    if (modifiers.startSpeed) labels.push('fastStart');
+    if (modifiers.coinLane !== undefined) labels.push(COIN_LANE_LABELS[modifiers.coinLane]);
+    return labels;
+}
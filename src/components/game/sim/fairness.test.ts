@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { LANES } from './constants';
+import { capabilitiesFor, findSafePath, Hazard, hazardOf, isPassable, PathStep, PlayerStart } from './fairness';
+import { ObstacleType } from './types';
+import { createWorld } from './world';
+
+const caps = capabilitiesFor(createWorld({ seed: 1 }));
+const grounded: PlayerStart = { lane: 1, airborne: 0, sliding: 0 };
+
+// A hazard that must exist; pickups have none and would silently drop out of a test
+const hazard = (type: ObstacleType, lane: number, z: number): Hazard => {
+    const found = hazardOf(type, lane, z);
+    assert.ok(found, `${type} is not a hazard`);
+    return found;
+};
+
+// The same hazard across every lane, so it has to be cleared in place
+const wall = (type: ObstacleType, z: number): Hazard[] => LANES.map((_, lane) => hazard(type, lane, z));
+
+// Where a found path has the hamster once a hazard at `z` is level with it
+const levelWith = (path: PathStep[] | null, z: number): PathStep => {
+    assert.ok(path, 'no path found');
+    const step = path.find((s) => s.time >= -z / caps.speed);
+    assert.ok(step, 'path ends before the hazard arrives');
+    return step;
+};
+
+test('an empty track needs no moves', () => {
+    assert.deepEqual(findSafePath([], grounded, caps), []);
+});
+
+test('a log in the lane ahead is dodged into a neighbouring lane', () => {
+    const z = -10;
+    assert.notEqual(levelWith(findSafePath([hazard('log', 1, z)], grounded, caps), z).lane, 1);
+});
+
+test('a wall of logs is impassable', () => {
+    assert.equal(findSafePath(wall('log', -10), grounded, caps), null);
+    assert.equal(isPassable(wall('log', -10), grounded, caps), false);
+});
+
+test('a wall of rocks is jumped and a wall of branches is slid under', () => {
+    const z = -10;
+    assert.equal(levelWith(findSafePath(wall('rock', z), grounded, caps), z).airborne, true);
+    assert.equal(levelWith(findSafePath(wall('branch', z), grounded, caps), z).sliding, true);
+});
+
+test('a rock wall too close to jump is only passable when a jump has just taken off', () => {
+    // Reaches the hamster before a jump started now could rise above it
+    const z = -(hazard('rock', 0, 0).depth + caps.speed * caps.jumpClearFrom / 2);
+    assert.equal(isPassable(wall('rock', z), grounded, caps), false);
+    assert.equal(isPassable(wall('rock', z), { ...grounded, airborne: caps.jumpDuration * 0.8 }, caps), true);
+    // Past the top of the arc it comes down on the rocks before they have gone by
+    assert.equal(isPassable(wall('rock', z), { ...grounded, airborne: caps.jumpDuration * 0.3 }, caps), false);
+});
+
+test('a branch wall right behind a rock wall leaves no time to land and slide', () => {
+    const z = -10;
+    assert.equal(isPassable([...wall('rock', z), ...wall('branch', z - 1)], grounded, caps), false);
+    assert.equal(isPassable([...wall('rock', z), ...wall('branch', z - 4)], grounded, caps), true);
+});
+
+test('the one clearable hazard two lanes over is reached and jumped', () => {
+    const hazards = [hazard('log', 0, -10), hazard('log', 1, -10), hazard('rock', 2, -10)];
+    const level = levelWith(findSafePath(hazards, { ...grounded, lane: 0 }, caps), -10);
+    assert.equal(level.lane, 2);
+    assert.equal(level.airborne, true);
+});
+
+test('proving a far-off wall impassable stays within the search budget', () => {
+    const started = Date.now();
+    assert.equal(isPassable([hazard('rock', 0, -20), hazard('branch', 1, -35), ...wall('log', -70)], grounded, caps), false);
+    assert.ok(Date.now() - started < 100);
+});
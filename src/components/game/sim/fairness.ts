@@ -0,0 +1,200 @@
+import {
+    HAZARDS,
+    JUMP_DURATION,
+    JUMP_HEIGHT,
+    LANES,
+    LANE_LERP,
+    OBSTACLE_HITBOXES,
+    PLAYER_HITBOX,
+    SLIDE_DURATION,
+} from './constants';
+import { TICK_RATE } from './loop';
+import { Clearance, ObstacleType, WorldState } from './types';
+
+// An obstacle that ends the run unless cleared, at its current z (negative = ahead)
+export interface Hazard {
+    lane: number;
+    z: number;
+    depth: number; // half-length of the z window in which it overlaps the hamster
+    clearance: Clearance;
+}
+
+export interface MoveCapabilities {
+    speed: number; // world units the track scrolls per second
+    jumpDuration: number; // seconds airborne per jump
+    jumpClearFrom: number; // seconds into a jump when the hamster rises above jumpable hazards
+    jumpClearTo: number; // ...and when it drops back onto them
+    slideDuration: number; // seconds low per slide
+    laneChangeTime: number; // seconds the hamster still overlaps the lane it is leaving
+}
+
+export interface PlayerStart {
+    lane: number;
+    airborne: number; // seconds of jump left, 0 when grounded
+    sliding: number; // seconds of slide left, 0 when standing
+}
+
+export interface PathStep {
+    time: number; // seconds from now
+    lane: number;
+    airborne: boolean;
+    sliding: boolean;
+}
+
+// Resolution of the search; finer than a lane change, coarse enough to stay cheap
+const STEP = 1 / 30;
+
+// Most search nodes visited before giving up. Survivable tracks take a few hundred, while
+// proving a far-off wall unsurvivable can take 200k+; giving up counts as unsurvivable,
+// so the spawner falls back to an easier track rather than stalling a tick
+const SEARCH_BUDGET = 5000;
+
+const HAZARD_TYPES = Object.keys(HAZARDS) as ObstacleType[];
+
+// Seconds until the lane lerp has carried the hamster's hitbox clear of the widest hazard in the lane it left
+export const LANE_CHANGE_TIME = (() => {
+    const spacing = LANES[1] - LANES[0];
+    const reach = PLAYER_HITBOX.halfWidth + Math.max(...HAZARD_TYPES.map((type) => OBSTACLE_HITBOXES[type].halfWidth));
+    return Math.log((spacing - reach) / spacing) / Math.log(1 - LANE_LERP) / TICK_RATE;
+})();
+
+// The part of the jump arc where the hamster's feet are above the tallest jumpable hazard
+const JUMP_CLEARANCE = (() => {
+    const tallest = Math.max(...HAZARD_TYPES.filter((type) => HAZARDS[type] === 'jump').map((type) => OBSTACLE_HITBOXES[type].top));
+    const half = Math.sqrt(Math.max(0, 1 - tallest / JUMP_HEIGHT)) / 2;
+    return { from: (0.5 - half) * JUMP_DURATION, to: (0.5 + half) * JUMP_DURATION };
+})();
+
+export function capabilitiesFor(world: WorldState): MoveCapabilities {
+    return {
+        speed: world.speed * 60,
+        jumpDuration: JUMP_DURATION,
+        jumpClearFrom: JUMP_CLEARANCE.from,
+        jumpClearTo: JUMP_CLEARANCE.to,
+        slideDuration: SLIDE_DURATION,
+        laneChangeTime: LANE_CHANGE_TIME,
+    };
+}
+
+// The hazard an obstacle of this type poses, or null for pickups
+export function hazardOf(type: ObstacleType, lane: number, z: number): Hazard | null {
+    const clearance = HAZARDS[type];
+    if (!clearance) return null;
+    return { lane, z, depth: OBSTACLE_HITBOXES[type].halfDepth + PLAYER_HITBOX.halfDepth, clearance };
+}
+
+// Hazards the hamster has not yet fully passed
+export function hazardsFor(world: WorldState): Hazard[] {
+    return world.obstacles.flatMap((o) => {
+        const hazard = o.collected ? null : hazardOf(o.type, o.lane, o.z);
+        return hazard && hazard.z < hazard.depth ? [hazard] : [];
+    });
+}
+
+export function playerStartFor(world: WorldState): PlayerStart {
+    const { player } = world;
+    return {
+        lane: player.lane,
+        airborne: player.jumping ? Math.max(0, JUMP_DURATION - player.jumpElapsed) : 0,
+        sliding: player.sliding ? Math.max(0, SLIDE_DURATION - player.slideElapsed) : 0,
+    };
+}
+
+interface Node {
+    lane: number;
+    fromLane: number; // lane being left during a switch, -1 otherwise
+    changeSteps: number; // steps left straddling fromLane
+    jumpStep: number; // steps since takeoff, 0 when grounded
+    slideSteps: number; // steps left sliding
+}
+
+/**
+ * Searches for a sequence of lane changes, jumps and slides that clears every hazard.
+ * Returns the path (one entry per search step until the last hazard has passed)
+ * or null when the hazards are unsurvivable from `start`, or no path turned up
+ * within SEARCH_BUDGET nodes. Pure and deterministic.
+ */
+export function findSafePath(hazards: Hazard[], start: PlayerStart, caps: MoveCapabilities): PathStep[] | null {
+    if (hazards.length === 0) return [];
+
+    const totalSteps = Math.max(...hazards.map((h) => Math.ceil((h.depth - h.z) / caps.speed / STEP))) + 1;
+    const changeSteps = Math.max(1, Math.ceil(caps.laneChangeTime / STEP));
+    const jumpSteps = Math.max(1, Math.ceil(caps.jumpDuration / STEP));
+    const slideSteps = Math.max(1, Math.floor(caps.slideDuration / STEP));
+    // Steps into a jump that count as clearing; jumpStep may lag the real jump by up to a step
+    const clearFrom = Math.ceil(caps.jumpClearFrom / STEP);
+    const clearTo = Math.floor(caps.jumpClearTo / STEP) - 1;
+
+    // Lanes blocked at a given step, as a bitmask per way of clearing them
+    const blocked: Record<Clearance, number[]> = {
+        jump: new Array<number>(totalSteps + 1).fill(0),
+        slide: new Array<number>(totalSteps + 1).fill(0),
+        dodge: new Array<number>(totalSteps + 1).fill(0),
+    };
+    hazards.forEach((h) => {
+        // Rounded outward so a hit between two search steps still counts
+        const first = Math.max(0, Math.floor((-h.depth - h.z) / caps.speed / STEP));
+        const last = Math.min(totalSteps, Math.ceil((h.depth - h.z) / caps.speed / STEP));
+        for (let i = first; i <= last; i++) blocked[h.clearance][i] |= 1 << h.lane;
+    });
+
+    const isSafe = (node: Node, i: number) => {
+        const mask = (1 << node.lane) | (node.changeSteps > 0 ? 1 << node.fromLane : 0);
+        const aboveHazards = node.jumpStep >= clearFrom && node.jumpStep <= clearTo;
+        const hit = blocked.dodge[i]
+            | (aboveHazards ? 0 : blocked.jump[i])
+            | (node.slideSteps > 0 ? 0 : blocked.slide[i]);
+        return (hit & mask) === 0;
+    };
+
+    const dead = new Set<string>();
+    const path: Node[] = [];
+    let budget = SEARCH_BUDGET;
+
+    const search = (node: Node, i: number): boolean => {
+        if (--budget < 0 || !isSafe(node, i)) return false;
+        path[i] = node;
+        if (i === totalSteps) return true;
+
+        const key = `${i}:${node.lane}:${node.fromLane}:${node.changeSteps}:${node.jumpStep}:${node.slideSteps}`;
+        if (dead.has(key)) return false;
+
+        const tick = (lane: number, fromLane: number, change: number, jump: number, slide: number): Node => ({
+            lane,
+            fromLane: change > 0 ? fromLane : -1,
+            changeSteps: Math.max(0, change),
+            jumpStep: jump > jumpSteps ? 0 : jump,
+            slideSteps: Math.max(0, slide),
+        });
+
+        const jump = node.jumpStep > 0 ? node.jumpStep + 1 : 0;
+        const slide = node.slideSteps - 1;
+        const options: Node[] = [tick(node.lane, node.fromLane, node.changeSteps - 1, jump, slide)];
+        if (node.changeSteps === 0) {
+            // Mirrors the sim: a jump ends a slide, a slide ends a jump or restarts a slide
+            if (node.jumpStep === 0) options.push(tick(node.lane, -1, 0, 1, 0));
+            options.push(tick(node.lane, -1, 0, 0, slideSteps));
+            if (node.lane > 0) options.push(tick(node.lane - 1, node.lane, changeSteps, jump, slide));
+            if (node.lane < LANES.length - 1) options.push(tick(node.lane + 1, node.lane, changeSteps, jump, slide));
+        }
+
+        if (options.some((next) => search(next, i + 1))) return true;
+        dead.add(key);
+        return false;
+    };
+
+    const root: Node = {
+        lane: start.lane,
+        fromLane: -1,
+        changeSteps: 0,
+        jumpStep: start.airborne > 0 ? Math.max(1, Math.floor((caps.jumpDuration - start.airborne) / STEP)) : 0,
+        slideSteps: Math.floor(start.sliding / STEP),
+    };
+    if (!search(root, 0)) return null;
+
+    return path.map((node, i) => ({ time: i * STEP, lane: node.lane, airborne: node.jumpStep > 0, sliding: node.slideSteps > 0 }));
+}
+
+export function isPassable(hazards: Hazard[], start: PlayerStart, caps: MoveCapabilities): boolean {
+    return findSafePath(hazards, start, caps) !== null;
+}
@@ -0,0 +1,22 @@
+export * from './constants';
+export * from './types';
+export * from './random';
+export { cloneWorld, createWorld, step } from './world';
+export { createFixedLoop, interpolate, runFixedSteps, MAX_FRAME_DELTA, TICK_DURATION, TICK_RATE } from './loop';
+export type { FixedLoop, InputSource } from './loop';
+export type { WorldOptions } from './world';
+export { TimerQueue } from './timers';
+export { createGhost, createReplay, createSeeker, indexReplay, parseReplay, raceMargin, seekWorld, serializeReplay, simulateReplay, syncGhost, ReplayError } from './replay';
+export type { Ghost, Replay, ReplayErrorReason, ReplayInput, ReplaySeeker } from './replay';
+export { dailyKey, dailyModifiers, dailySeed, describeModifiers } from './daily';
+export type { ModifierLabel } from './daily';
+export { CHUNKS } from './chunks';
+export { chunkLength, difficultyTier, eligibleChunks, pickChunk, placeChunk, validateChunks, MAX_TIER } from './patterns';
+export type { ChunkDefinition, ChunkItem, ChunkLane, PlacedItem } from './patterns';
+export { obstacleBox, overlaps, overlapsX, overlapsZ, playerBox, proximity } from './collision';
+export type { Aabb, Proximity } from './collision';
+export { capabilitiesFor, findSafePath, hazardOf, hazardsFor, isPassable, playerStartFor, LANE_CHANGE_TIME } from './fairness';
+export type { Hazard, MoveCapabilities, PathStep, PlayerStart } from './fairness';
+export { createRunStats, recordStats } from './stats';
+export { activatePowerUp, createPowerUps, endPowerUp, isPowerUp, rollPowerUp, updatePowerUps, POWER_UP_TYPES } from './powerups';
+export { addPoints, createBreakdown, createCombo, extendCombo, nearMissGap, updateScoring } from './scoring';
@@ -0,0 +1,43 @@
+import { SimEvent, SimInput, WorldState } from './types';
+import { step } from './world';
+
+// Logic runs at a fixed 60 Hz regardless of the display refresh rate
+export const TICK_RATE = 60;
+export const TICK_DURATION = 1 / TICK_RATE;
+
+// Longest frame we catch up on; anything beyond (e.g. a backgrounded tab) is dropped
+export const MAX_FRAME_DELTA = 0.25;
+
+export interface FixedLoop {
+    accumulator: number;
+    alpha: number; // how far rendering sits between the previous and current tick, 0..1
+}
+
+export function createFixedLoop(): FixedLoop {
+    return { accumulator: 0, alpha: 0 };
+}
+
+// Supplies the inputs for the tick about to run: the live input queue or a replay
+export type InputSource = (tick: number) => SimInput[];
+
+/**
+ * Feeds one rendered frame into the loop and runs as many fixed ticks as it covers.
+ * Inputs are only pulled when a tick actually runs, so an input arriving on a short
+ * frame waits for the next tick instead of being lost.
+ */
+export function runFixedSteps(loop: FixedLoop, world: WorldState, frameDelta: number, takeInputs: InputSource): SimEvent[] {
+    const events: SimEvent[] = [];
+    loop.accumulator += Math.min(Math.max(frameDelta, 0), MAX_FRAME_DELTA);
+
+    while (loop.accumulator >= TICK_DURATION && world.status === 'playing') {
+        loop.accumulator -= TICK_DURATION;
+        events.push(...step(world, TICK_DURATION, takeInputs(world.tick + 1)));
+    }
+
+    loop.alpha = world.status === 'playing' ? loop.accumulator / TICK_DURATION : 1;
+    return events;
+}
+
+export function interpolate(previous: number, current: number, alpha: number): number {
+    return previous + (current - previous) * alpha;
+}
@@ -0,0 +1,90 @@
+import { LANES, MAX_BASE_SPEED, START_SPEED } from './constants';
+import { Rng } from './random';
+import { ObstacleType } from './types';
+
+/**
+ * A lane index, or 'any' for a lane rolled once per chunk instance (all 'any'
+ * items of a chunk share it, so e.g. a coin trail stays in one lane).
+ */
+export type ChunkLane = number | 'any';
+
+export interface ChunkItem {
+    type: ObstacleType | 'powerUp'; // 'powerUp' is rolled by POWER_UPS weight when placed
+    lane: ChunkLane;
+    offset: number; // distance behind the start of the chunk, in world units
+}
+
+export interface ChunkDefinition {
+    id: string;
+    minTier: number; // first difficulty tier the chunk may appear in
+    maxTier?: number; // last tier, if it should retire
+    weight: number; // relative selection weight within the eligible set
+    mirror?: boolean; // may be flipped left/right (default true)
+    items: ChunkItem[];
+}
+
+// An item placed by the spawner, relative to the chunk start
+export interface PlacedItem {
+    type: ChunkItem['type'];
+    lane: number;
+    offset: number;
+}
+
+export const MAX_TIER = 4;
+
+// 0 at the start speed up to MAX_TIER at the maximum base speed
+export function difficultyTier(baseSpeed: number): number {
+    const progress = (baseSpeed - START_SPEED) / (MAX_BASE_SPEED - START_SPEED);
+    return Math.max(0, Math.min(MAX_TIER, Math.floor(progress * MAX_TIER)));
+}
+
+export function chunkLength(chunk: ChunkDefinition): number {
+    return chunk.items.reduce((max, item) => Math.max(max, item.offset), 0);
+}
+
+export function eligibleChunks(library: ChunkDefinition[], tier: number): ChunkDefinition[] {
+    return library.filter((chunk) => tier >= chunk.minTier && tier <= (chunk.maxTier ?? MAX_TIER));
+}
+
+export function pickChunk(library: ChunkDefinition[], tier: number, rng: Rng): ChunkDefinition {
+    const pool = eligibleChunks(library, tier);
+    const total = pool.reduce((sum, chunk) => sum + chunk.weight, 0);
+    let roll = rng.next() * total;
+    for (const chunk of pool) {
+        roll -= chunk.weight;
+        if (roll < 0) return chunk;
+    }
+    return pool[pool.length - 1];
+}
+
+// Resolves 'any' lanes and mirroring into concrete lanes
+export function placeChunk(chunk: ChunkDefinition, rng: Rng): PlacedItem[] {
+    const anyLane = rng.int(LANES.length);
+    const mirrored = chunk.mirror !== false && rng.next() < 0.5;
+    return chunk.items.map((item) => {
+        const lane = item.lane === 'any' ? anyLane : item.lane;
+        return { type: item.type, lane: mirrored ? LANES.length - 1 - lane : lane, offset: item.offset };
+    });
+}
+
+// Problems in a chunk library, for designers editing chunks.ts; chunks.test.ts runs it on CHUNKS
+export function validateChunks(library: ChunkDefinition[]): string[] {
+    const problems: string[] = [];
+    const ids = new Set<string>();
+    library.forEach((chunk) => {
+        if (ids.has(chunk.id)) problems.push(`${chunk.id}: duplicate id`);
+        ids.add(chunk.id);
+        if (!(chunk.weight > 0)) problems.push(`${chunk.id}: weight must be positive`);
+        if (chunk.items.length === 0) problems.push(`${chunk.id}: has no items`);
+        if (chunk.minTier > (chunk.maxTier ?? MAX_TIER)) problems.push(`${chunk.id}: minTier above maxTier`);
+        chunk.items.forEach((item, i) => {
+            const laneOk = item.lane === 'any' || (Number.isInteger(item.lane) && item.lane >= 0 && item.lane < LANES.length);
+            if (!laneOk) problems.push(`${chunk.id}[${i}]: invalid lane ${item.lane}`);
+            if (!(item.offset >= 0)) problems.push(`${chunk.id}[${i}]: offset must be >= 0`);
+        });
+    });
+    for (let tier = 0; tier <= MAX_TIER; tier++) {
+        if (eligibleChunks(library, tier).length === 0) problems.push(`tier ${tier}: no eligible chunks`);
+    }
+    return problems;
+}
@@ -0,0 +1,57 @@
+import { MAX_SPEED, POWER_UPS } from './constants';
+import { Rng } from './random';
+import { ObstacleType, PowerUpType, SimEvent, WorldState } from './types';
+
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+
+export const isPowerUp = (type: ObstacleType): type is PowerUpType => type in POWER_UPS;
+
+export function createPowerUps(): Record<PowerUpType, number> {
+    return Object.fromEntries(POWER_UP_TYPES.map((type) => [type, 0])) as Record<PowerUpType, number>;
+}
+
+const active = (world: WorldState) => POWER_UP_TYPES.filter((type) => world.powerUps[type] > 0);
+
+// The effective speed: the base speed scaled by every active speedFactor
+export function updateSpeed(world: WorldState) {
+    const factor = active(world).reduce((f, type) => f * (POWER_UPS[type].speedFactor ?? 1), 1);
+    world.speed = Math.min(world.baseSpeed * factor, MAX_SPEED);
+}
+
+export function activatePowerUp(world: WorldState, type: PowerUpType, events: SimEvent[]) {
+    world.powerUps[type] = POWER_UPS[type].duration;
+    updateSpeed(world);
+    events.push({ type: 'powerUpStart', powerUp: type });
+}
+
+export function endPowerUp(world: WorldState, type: PowerUpType, events: SimEvent[]) {
+    world.powerUps[type] = 0;
+    updateSpeed(world);
+    events.push({ type: 'powerUpEnd', powerUp: type });
+}
+
+export function updatePowerUps(world: WorldState, dt: number, events: SimEvent[]) {
+    active(world).forEach((type) => {
+        world.powerUps[type] = Math.max(0, world.powerUps[type] - dt);
+        if (world.powerUps[type] === 0) endPowerUp(world, type, events);
+    });
+}
+
+export const hasMagnet = (world: WorldState) => active(world).some((type) => POWER_UPS[type].magnet);
+
+export const scoreFactor = (world: WorldState) => active(world).reduce((f, type) => f * (POWER_UPS[type].scoreFactor ?? 1), 1);
+
+// The active power-up that would take a hit from this hazard, if any
+export const absorberOf = (world: WorldState, hazard: ObstacleType) =>
+    active(world).find((type) => POWER_UPS[type].absorbs?.includes(hazard));
+
+// Picks which power-up a chunk's 'powerUp' item becomes
+export function rollPowerUp(rng: Rng): PowerUpType {
+    const total = POWER_UP_TYPES.reduce((sum, type) => sum + POWER_UPS[type].weight, 0);
+    let roll = rng.next() * total;
+    for (const type of POWER_UP_TYPES) {
+        roll -= POWER_UPS[type].weight;
+        if (roll < 0) return type;
+    }
+    return POWER_UP_TYPES[POWER_UP_TYPES.length - 1];
+}
@@ -0,0 +1,64 @@
+// Small seedable PRNG (mulberry32) so a seed reproduces the exact same run
+
+export interface Rng {
+    seed: number;
+    next: () => number; // float in [0, 1)
+    range: (min: number, max: number) => number;
+    int: (maxExclusive: number) => number;
+    clone: () => Rng; // an independent copy that continues the same sequence
+}
+
+export function createRng(seed: number): Rng {
+    return resumeRng(seed >>> 0, seed >>> 0);
+}
+
+// The generator for `seed`, picking up from an internal state
+function resumeRng(seed: number, state: number): Rng {
+    let a = state;
+
+    const next = () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    return {
+        seed,
+        next,
+        range: (min, max) => min + next() * (max - min),
+        int: (maxExclusive) => Math.floor(next() * maxExclusive),
+        clone: () => resumeRng(seed, a),
+    };
+}
+
+// FNV-1a string hash, used to turn text seeds and stream labels into numbers
+export function hashString(text: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/**
+ * Derives an independent stream from a run seed, e.g. `deriveSeed(seed, 'scenery')`,
+ * so that cosmetic randomness never shifts the gameplay sequence.
+ */
+export function deriveSeed(seed: number, label: string): number {
+    return hashString(`${seed >>> 0}:${label}`);
+}
+
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Accepts either a numeric seed or any text (e.g. from a shared link)
+export function parseSeed(value: string | null | undefined): number | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    return /^\d+$/.test(trimmed) ? Number(trimmed) >>> 0 : hashString(trimmed);
+}
@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { SIM_VERSION } from './constants';
+import { TICK_DURATION } from './loop';
+import {
+    createGhost,
+    createReplay,
+    createSeeker,
+    indexReplay,
+    parseReplay,
+    raceMargin,
+    Replay,
+    ReplayError,
+    ReplayErrorReason,
+    seekWorld,
+    serializeReplay,
+    simulateReplay,
+    syncGhost,
+} from './replay';
+import { SimInput, WorldState } from './types';
+import { createWorld, step } from './world';
+
+// A short run with a few of every input, played until it crashes
+const record = (): Replay => {
+    const world = createWorld({ seed: 7, modifiers: { noMagnets: true } });
+    const script: SimInput[] = ['left', 'jump', 'right', 'slide', 'right', 'jump', 'left'];
+    for (let tick = 0; tick < 7200 && world.status === 'playing'; tick++) {
+        step(world, TICK_DURATION, tick % 50 === 25 ? [script[(tick / 50) % script.length | 0]] : []);
+    }
+    return createReplay(world);
+};
+
+const replay = record();
+
+// A replay file with some fields overridden
+const tampered = (fields: Record<string, unknown>) => JSON.stringify({ ...replay, ...fields });
+
+const rejects = (text: string, reason: ReplayErrorReason) =>
+    assert.throws(() => parseReplay(text), (err) => err instanceof ReplayError && err.reason === reason);
+
+test('a replay survives serializing and parsing', () => {
+    assert.ok(replay.inputs.length > 5);
+    const text = serializeReplay(replay);
+    assert.equal(serializeReplay(parseReplay(text)), text);
+});
+
+test('a file that is not JSON is not a replay', () => {
+    rejects('hamster', 'notAFile');
+});
+
+test('a replay from another game version is rejected', () => {
+    rejects(tampered({ version: SIM_VERSION - 1 }), 'version');
+});
+
+test('malformed fields are rejected as corrupted', () => {
+    rejects('null', 'corrupted');
+    rejects(tampered({ seed: -1 }), 'corrupted');
+    rejects(tampered({ seed: 'seven' }), 'corrupted');
+    rejects(tampered({ ticks: 1.5 }), 'corrupted');
+    rejects(tampered({ inputs: [[10, 'fly']] }), 'corrupted');
+    rejects(tampered({ inputs: [[-1, 'jump']] }), 'corrupted');
+    rejects(tampered({ inputs: [[10]] }), 'corrupted');
+    rejects(tampered({ modifiers: { coinLane: 3 } }), 'corrupted');
+    rejects(tampered({ modifiers: { startSpeed: 0 } }), 'corrupted');
+});
+
+test('simulating a replay reproduces the recorded run', () => {
+    const world = simulateReplay(replay, indexReplay(replay));
+    assert.equal(world.status, 'gameover');
+    assert.equal(world.tick, replay.ticks);
+    assert.equal(world.score, replay.score);
+});
+
+test('a replay can be simulated part of the way, for seeking', () => {
+    const half = Math.floor(replay.ticks / 2);
+    const world = simulateReplay(replay, indexReplay(replay), half);
+    assert.equal(world.tick, half);
+    assert.equal(world.status, 'playing');
+});
+
+test('a ghost stops where its recorded run ended', () => {
+    const ghost = createGhost(replay);
+    syncGhost(ghost, replay.ticks + 600);
+    assert.equal(ghost.world.tick, replay.ticks);
+    assert.equal(ghost.world.score, replay.score);
+});
+
+// Everything that decides how a world plays on, including where its random stream is
+const fingerprint = (world: WorldState) => {
+    const { rng, chunks, ...state } = world;
+    return { ...state, chunks: chunks.length, upcoming: rng.clone().next() };
+};
+
+test('seeking matches re-simulating from the start, in any order', () => {
+    const seeker = createSeeker(replay);
+    [900, 120, replay.ticks, 0, 650, 301, replay.ticks + 100].forEach((tick) => {
+        assert.deepEqual(fingerprint(seekWorld(seeker, tick)), fingerprint(simulateReplay(replay, seeker.byTick, tick)));
+    });
+});
+
+test('a world sought mid-run plays on to the recorded ending', () => {
+    const seeker = createSeeker(replay);
+    seekWorld(seeker, replay.ticks);
+    const world = seekWorld(seeker, 700);
+    while (world.status === 'playing') step(world, TICK_DURATION, seeker.byTick.get(world.tick + 1) ?? []);
+    assert.equal(world.tick, replay.ticks);
+    assert.equal(world.score, replay.score);
+});
+
+test('crashing early while level with the ghost still loses to its whole run', () => {
+    // The ghost jumps its way through a long run; the racer never moves and crashes early
+    const recorded = createWorld({ seed: 8 });
+    for (let tick = 0; tick < 7200 && recorded.status === 'playing'; tick++) {
+        step(recorded, TICK_DURATION, tick % 40 === 0 ? ['jump'] : []);
+    }
+    const ghost = createGhost(createReplay(recorded));
+    const racer = createWorld({ seed: 8 });
+    while (racer.status === 'playing') {
+        step(racer, TICK_DURATION);
+        syncGhost(ghost, racer.tick);
+    }
+
+    assert.ok(racer.tick < ghost.replay.ticks);
+    assert.ok(racer.score >= ghost.world.score); // the live lead at the crash
+    assert.equal(raceMargin(racer, ghost), racer.score - recorded.score);
+    assert.ok(raceMargin(racer, ghost) < 0);
+});
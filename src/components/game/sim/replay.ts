@@ -0,0 +1,171 @@
+import { LANES, SIM_VERSION } from './constants';
+import { TICK_DURATION } from './loop';
+import { RunModifiers, SimInput, WorldState } from './types';
+import { cloneWorld, createWorld, step } from './world';
+
+// [tick, input]: the input was applied at the start of that tick
+export type ReplayInput = [number, SimInput];
+
+export interface Replay {
+    version: number; // SIM_VERSION the run was recorded with
+    seed: number;
+    modifiers: RunModifiers;
+    ticks: number; // total ticks simulated
+    score: number;
+    recordedAt: string; // ISO date
+    inputs: ReplayInput[];
+}
+
+const VALID_INPUTS: SimInput[] = ['left', 'right', 'jump', 'slide'];
+
+// Snapshot a finished (or in-progress) run as a replay
+export function createReplay(world: WorldState): Replay {
+    return {
+        version: SIM_VERSION,
+        seed: world.seed,
+        modifiers: { ...world.modifiers },
+        ticks: world.tick,
+        score: world.score,
+        recordedAt: new Date().toISOString(),
+        inputs: world.inputLog.map(([tick, input]) => [tick, input]),
+    };
+}
+
+// Groups recorded inputs by tick for playback
+export function indexReplay(replay: Replay): Map<number, SimInput[]> {
+    const byTick = new Map<number, SimInput[]>();
+    replay.inputs.forEach(([tick, input]) => {
+        const list = byTick.get(tick);
+        if (list) list.push(input);
+        else byTick.set(tick, [input]);
+    });
+    return byTick;
+}
+
+export function serializeReplay(replay: Replay): string {
+    return JSON.stringify(replay);
+}
+
+// Why a replay file was rejected, so the UI can explain it in the player's language
+export type ReplayErrorReason = 'notAFile' | 'corrupted' | 'version';
+
+export class ReplayError extends Error {
+    constructor(readonly reason: ReplayErrorReason, message: string) {
+        super(message);
+        this.name = 'ReplayError';
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+const isReplayInput = (entry: unknown): entry is ReplayInput =>
+    Array.isArray(entry) && entry.length === 2 && isCount(entry[0]) && VALID_INPUTS.includes(entry[1]);
+const isModifiers = (value: unknown): value is RunModifiers =>
+    isRecord(value)
+    && (value.noMagnets === undefined || typeof value.noMagnets === 'boolean')
+    && (value.startSpeed === undefined || (typeof value.startSpeed === 'number' && value.startSpeed > 0))
+    && (value.coinLane === undefined || (isCount(value.coinLane) && value.coinLane < LANES.length));
+
+/**
+ * Parses and validates a replay file. Throws a ReplayError when the data is
+ * malformed or was recorded with different game rules.
+ */
+export function parseReplay(text: string): Replay {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ReplayError('notAFile', 'Not a replay file');
+    }
+
+    if (!isRecord(data) || !isCount(data.seed) || !isCount(data.ticks) || !isCount(data.score)) {
+        throw new ReplayError('corrupted', 'Replay file is corrupted');
+    }
+    const { inputs } = data;
+    const modifiers = data.modifiers ?? {};
+    if (!Array.isArray(inputs) || !inputs.every(isReplayInput) || !isModifiers(modifiers)) {
+        throw new ReplayError('corrupted', 'Replay file is corrupted');
+    }
+    if (data.version !== SIM_VERSION) {
+        throw new ReplayError('version', 'Replay was recorded with a different game version');
+    }
+
+    return {
+        version: data.version,
+        seed: data.seed >>> 0,
+        modifiers: {
+            noMagnets: modifiers.noMagnets,
+            startSpeed: modifiers.startSpeed,
+            coinLane: modifiers.coinLane,
+        },
+        ticks: data.ticks,
+        score: data.score,
+        recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+        inputs: inputs.map(([tick, input]) => [tick, input]),
+    };
+}
+
+// A replayed run simulated alongside the live one, e.g. a personal-best ghost
+export interface Ghost {
+    replay: Replay;
+    byTick: Map<number, SimInput[]>;
+    world: WorldState;
+}
+
+export function createGhost(replay: Replay): Ghost {
+    return { replay, byTick: indexReplay(replay), world: createWorld({ seed: replay.seed, modifiers: replay.modifiers }) };
+}
+
+// Steps the ghost up to `tick`; it stops by itself once the recorded run has ended
+export function syncGhost(ghost: Ghost, tick: number) {
+    stepUntil(ghost.world, ghost.byTick, tick);
+}
+
+// How a finished run did against the ghost's whole recorded run, however early either ended.
+// The live lead (score against the ghost at the same tick) says nothing about who won
+export function raceMargin(world: WorldState, ghost: Ghost): number {
+    return world.score - ghost.replay.score;
+}
+
+// Re-simulates a replay from the start up to `untilTick`
+export function simulateReplay(replay: Replay, byTick: Map<number, SimInput[]>, untilTick = replay.ticks): WorldState {
+    const world = createWorld({ seed: replay.seed, modifiers: replay.modifiers });
+    stepUntil(world, byTick, untilTick);
+    return world;
+}
+
+// Ticks between saved worlds; a seek re-simulates at most this many
+const SNAPSHOT_INTERVAL = 300;
+
+// Seeks within a replay by stepping on from the nearest saved world rather than from tick 0
+export interface ReplaySeeker {
+    replay: Replay;
+    byTick: Map<number, SimInput[]>;
+    snapshots: WorldState[]; // the world every SNAPSHOT_INTERVAL ticks, saved as seeking first reaches them
+}
+
+export function createSeeker(replay: Replay): ReplaySeeker {
+    return { replay, byTick: indexReplay(replay), snapshots: [createWorld({ seed: replay.seed, modifiers: replay.modifiers })] };
+}
+
+// A fresh world at `tick` (or where the run ended, if earlier), for playback to continue from
+export function seekWorld(seeker: ReplaySeeker, tick: number): WorldState {
+    const { byTick, snapshots } = seeker;
+    const wanted = Math.floor(Math.max(0, tick) / SNAPSHOT_INTERVAL);
+    while (snapshots.length <= wanted) {
+        const next = cloneWorld(snapshots[snapshots.length - 1]);
+        stepUntil(next, byTick, snapshots.length * SNAPSHOT_INTERVAL);
+        if (next.tick < snapshots.length * SNAPSHOT_INTERVAL) break; // the run ended first
+        snapshots.push(next);
+    }
+
+    const world = cloneWorld(snapshots[Math.min(wanted, snapshots.length - 1)]);
+    stepUntil(world, byTick, tick);
+    return world;
+}
+
+function stepUntil(world: WorldState, byTick: Map<number, SimInput[]>, tick: number) {
+    while (world.status === 'playing' && world.tick < tick) {
+        step(world, TICK_DURATION, byTick.get(world.tick + 1) ?? []);
+    }
+}
@@ -0,0 +1,66 @@
+import { Aabb, proximity } from './collision';
+import { scoreFactor } from './powerups';
+import { COMBO_HITS_PER_STEP, COMBO_MAX_MULTIPLIER, COMBO_WINDOW, DISTANCE_PER_POINT } from './constants';
+import { ComboState, ScoreBreakdown, ScoreSource, SimEvent, WorldState } from './types';
+
+export function createCombo(): ComboState {
+    return { hits: 0, multiplier: 1, remaining: 0 };
+}
+
+export function createBreakdown(): ScoreBreakdown {
+    return { distance: 0, coins: 0, powerUps: 0, nearMisses: 0, combo: 0, scoreBoost: 0 };
+}
+
+// Counts a pickup or near miss towards the combo, restarting its window
+export function extendCombo(world: WorldState, events: SimEvent[]) {
+    const { combo } = world;
+    combo.hits++;
+    combo.remaining = COMBO_WINDOW;
+    const multiplier = Math.min(COMBO_MAX_MULTIPLIER, 1 + Math.floor(combo.hits / COMBO_HITS_PER_STEP));
+    if (multiplier !== combo.multiplier) {
+        combo.multiplier = multiplier;
+        events.push({ type: 'combo', multiplier });
+    }
+}
+
+// Scores `base` points from a source at the current multipliers; returns the points awarded
+export function addPoints(world: WorldState, source: Exclude<ScoreSource, 'combo' | 'distance' | 'scoreBoost'>, base: number): number {
+    const combo = base * world.combo.multiplier;
+    const total = Math.round(combo * scoreFactor(world));
+    world.breakdown[source] += base;
+    world.breakdown.combo += combo - base;
+    world.breakdown.scoreBoost += total - combo;
+    world.score += total;
+    return total;
+}
+
+// Room between the hamster and a hazard level with it, beside or above; null while passing
+// underneath, since a slide always leaves the same headroom
+export function nearMissGap(hitbox: Aabb, box: Aabb): number | null {
+    const { beside, above } = proximity(hitbox, box);
+    return beside < 0 && above < 0 ? null : Math.max(beside, above);
+}
+
+// Lets the combo lapse after a gap and pays out the distance covered
+export function updateScoring(world: WorldState, dt: number, events: SimEvent[]) {
+    const { combo, breakdown } = world;
+    if (combo.hits > 0) {
+        combo.remaining = Math.max(0, combo.remaining - dt);
+        if (combo.remaining === 0) {
+            combo.hits = 0;
+            if (combo.multiplier !== 1) {
+                combo.multiplier = 1;
+                events.push({ type: 'combo', multiplier: 1 });
+            }
+        }
+    }
+
+    // Distance points are never multiplied by the combo, only by power-ups
+    const earned = Math.floor(world.distance / DISTANCE_PER_POINT) - breakdown.distance;
+    if (earned > 0) {
+        const total = Math.round(earned * scoreFactor(world));
+        breakdown.distance += earned;
+        breakdown.scoreBoost += total - earned;
+        world.score += total;
+    }
+}
@@ -0,0 +1,51 @@
+import { MAX_BASE_SPEED } from './constants';
+import { createPowerUps, isPowerUp } from './powerups';
+import { RunStats, SimEvent, WorldState } from './types';
+
+export function createRunStats(): RunStats {
+    return {
+        coins: 0,
+        powerUps: createPowerUps(),
+        jumps: 0,
+        slides: 0,
+        laneChanges: 0,
+        maxSpeed: 0,
+        nearMisses: 0,
+        hitsAbsorbed: 0,
+        bestCombo: 1,
+        topSpeedTime: 0,
+        rockJumpStreak: 0,
+        bestRockJumpStreak: 0,
+        causeOfDeath: null,
+    };
+}
+
+// Folds one step's events into the run's tallies
+export function recordStats(world: WorldState, dt: number, events: SimEvent[]) {
+    const { stats } = world;
+    stats.maxSpeed = Math.max(stats.maxSpeed, world.speed);
+    if (world.baseSpeed >= MAX_BASE_SPEED) stats.topSpeedTime += dt;
+    events.forEach((event) => {
+        if (event.type === 'collect') {
+            if (event.obstacle.type === 'coin') stats.coins++;
+            else if (isPowerUp(event.obstacle.type)) stats.powerUps[event.obstacle.type]++;
+        } else if (event.type === 'jump') {
+            stats.jumps++;
+        } else if (event.type === 'slide') {
+            stats.slides++;
+        } else if (event.type === 'laneChange') {
+            stats.laneChanges++;
+        } else if (event.type === 'pass' && event.obstacle.type === 'rock') {
+            stats.rockJumpStreak = event.clearance === 'jump' ? stats.rockJumpStreak + 1 : 0;
+            stats.bestRockJumpStreak = Math.max(stats.bestRockJumpStreak, stats.rockJumpStreak);
+        } else if (event.type === 'nearMiss') {
+            stats.nearMisses++;
+        } else if (event.type === 'absorb') {
+            stats.hitsAbsorbed++;
+        } else if (event.type === 'combo') {
+            stats.bestCombo = Math.max(stats.bestCombo, event.multiplier);
+        } else if (event.type === 'crash') {
+            stats.causeOfDeath = event.obstacle.type;
+        }
+    });
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { TimerQueue } from './timers';
+
+// Frames of game time; a paused game skips `update`, as the game store does
+const play = (timers: TimerQueue, frames: number, dt = 0.25) => {
+    for (let i = 0; i < frames; i++) timers.update(dt);
+};
+
+test('a timer fires once its game time has passed', () => {
+    const timers = new TimerQueue();
+    let fired = 0;
+    timers.after(1, () => fired++);
+    play(timers, 3);
+    assert.equal(fired, 0);
+    play(timers, 1);
+    assert.equal(fired, 1);
+    play(timers, 8);
+    assert.equal(fired, 1);
+});
+
+test('a pause in the middle does not count towards a timer', async () => {
+    const timers = new TimerQueue();
+    let fired = 0;
+    timers.after(1, () => fired++);
+    play(timers, 2);
+    // Paused: wall-clock time goes by without any updates
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(fired, 0);
+    // Resumed: only the remaining half second is left to run
+    play(timers, 1);
+    assert.equal(fired, 0);
+    play(timers, 1);
+    assert.equal(fired, 1);
+});
+
+test('a cancelled timer never fires and others keep their time', () => {
+    const timers = new TimerQueue();
+    const fired: string[] = [];
+    const cancel = timers.after(0.5, () => fired.push('cancelled'));
+    timers.after(0.75, () => fired.push('kept'));
+    play(timers, 1);
+    cancel();
+    play(timers, 2);
+    assert.deepEqual(fired, ['kept']);
+});
+
+test('clearing the queue drops every pending timer', () => {
+    const timers = new TimerQueue();
+    let fired = 0;
+    timers.after(0.25, () => fired++);
+    timers.after(2, () => fired++);
+    timers.clear();
+    play(timers, 10);
+    assert.equal(fired, 0);
+});
@@ -0,0 +1,37 @@
+interface Timer {
+    remaining: number;
+    callback: () => void;
+}
+
+/**
+ * Timers measured in game time rather than wall-clock time: they only count down
+ * while `update` is called, so pausing the game suspends them.
+ */
+export class TimerQueue {
+    private timers: Timer[] = [];
+
+    after(seconds: number, callback: () => void) {
+        const timer: Timer = { remaining: seconds, callback };
+        this.timers.push(timer);
+        return () => {
+            this.timers = this.timers.filter((t) => t !== timer);
+        };
+    }
+
+    update(dt: number) {
+        if (this.timers.length === 0) return;
+
+        const due: Timer[] = [];
+        this.timers = this.timers.filter((timer) => {
+            timer.remaining -= dt;
+            if (timer.remaining > 0) return true;
+            due.push(timer);
+            return false;
+        });
+        due.forEach((timer) => timer.callback());
+    }
+
+    clear() {
+        this.timers = [];
+    }
+}
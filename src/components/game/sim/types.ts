@@ -0,0 +1,132 @@
+import { ChunkDefinition } from './patterns';
+import { Rng } from './random';
+
+// Pickups that switch on a timed effect, defined in POWER_UPS
+export type PowerUpType = 'chilly' | 'magnet' | 'shield' | 'doubler' | 'hourglass';
+
+export type ObstacleType = 'rock' | 'branch' | 'log' | 'coin' | PowerUpType;
+
+// How a hazard is survived in its lane: jumped over, slid under, or only by leaving the lane
+export type Clearance = 'jump' | 'slide' | 'dodge';
+
+// Axis-aligned hitbox dimensions; bottom/top are heights above the owner's y
+export interface HitboxSize {
+    halfWidth: number;
+    bottom: number;
+    top: number;
+    halfDepth: number;
+}
+
+// What a power-up does while active; the effects of several active ones stack
+export interface PowerUpDefinition {
+    duration: number; // seconds
+    weight: number; // relative chance when a chunk rolls a power-up
+    speedFactor?: number; // scales the effective speed
+    scoreFactor?: number; // scales every point scored
+    magnet?: boolean; // pulls in coins from any lane and height
+    absorbs?: ObstacleType[]; // hazards it takes one hit from, ending it
+}
+
+export type SimInput = 'left' | 'right' | 'jump' | 'slide';
+
+// Rule tweaks for special runs such as the daily challenge
+export interface RunModifiers {
+    noMagnets?: boolean; // magnets spawn as coins instead
+    startSpeed?: number; // overrides START_SPEED
+    coinLane?: number; // lane index where only coins spawn
+}
+
+export interface SimObstacle {
+    id: number;
+    type: ObstacleType;
+    lane: number;
+    z: number;
+    prevZ: number; // z at the previous tick, for render interpolation
+    variant: number; // cosmetic roll in [0, 1), e.g. rock shape
+    collected: boolean;
+    closest: number | null; // least daylight to the hamster while level with it, for near misses
+}
+
+export interface SimPlayer {
+    lane: number; // target lane index
+    x: number; // actual (interpolated) x position
+    y: number;
+    prevX: number; // position at the previous tick, for render interpolation
+    prevY: number;
+    jumping: boolean;
+    jumpElapsed: number;
+    sliding: boolean;
+    slideElapsed: number;
+}
+
+// Tallies of what happened during one run, kept by the simulation so replays reproduce them
+export interface RunStats {
+    coins: number;
+    powerUps: Record<PowerUpType, number>; // pickups per power-up type
+    jumps: number;
+    slides: number;
+    laneChanges: number;
+    maxSpeed: number; // top effective speed, world units per tick
+    nearMisses: number;
+    hitsAbsorbed: number; // hazards a power-up took the hit from
+    bestCombo: number; // highest multiplier reached
+    topSpeedTime: number; // seconds spent at MAX_BASE_SPEED
+    rockJumpStreak: number; // rocks jumped in a row, reset by a rock passed any other way
+    bestRockJumpStreak: number;
+    causeOfDeath: ObstacleType | null; // what the hamster ran into
+}
+
+export type ScoreSource = 'distance' | 'coins' | 'powerUps' | 'nearMisses' | 'combo' | 'scoreBoost';
+
+// Where the score came from; 'combo' is the extra the multiplier added on top of pickups and
+// 'scoreBoost' the extra from power-ups with a scoreFactor
+export type ScoreBreakdown = Record<ScoreSource, number>;
+
+export interface ComboState {
+    hits: number; // pickups and near misses since the last gap
+    multiplier: number;
+    remaining: number; // seconds until the combo lapses
+}
+
+export interface WorldState {
+    seed: number;
+    modifiers: RunModifiers;
+    status: 'playing' | 'gameover';
+    tick: number; // number of steps taken so far
+    time: number; // seconds of simulated game time
+    score: number;
+    breakdown: ScoreBreakdown;
+    combo: ComboState;
+    speed: number; // current effective speed
+    baseSpeed: number; // baseline speed for progression
+    powerUps: Record<PowerUpType, number>; // seconds left of each, 0 while inactive
+    player: SimPlayer;
+    obstacles: SimObstacle[];
+    distance: number; // world units travelled
+    chunks: ChunkDefinition[]; // pattern library the spawner draws from
+    nextChunkIn: number; // distance until the next chunk is stitched on
+    chunkCount: number;
+    nextRampAt: number;
+    nextId: number;
+    rng: Rng; // gameplay stream; every spawn decision goes through it
+    inputLog: [number, SimInput][]; // every input applied, keyed by tick, for replays
+    stats: RunStats;
+}
+
+export type SimEvent =
+    | { type: 'spawn'; obstacle: SimObstacle }
+    | { type: 'despawn'; obstacle: SimObstacle }
+    | { type: 'collect'; obstacle: SimObstacle; points: number }
+    | { type: 'crash'; obstacle: SimObstacle }
+    | { type: 'pass'; obstacle: SimObstacle; clearance: Clearance } // a hazard drew level and was cleared
+    | { type: 'nearMiss'; obstacle: SimObstacle; gap: number; points: number } // a hazard went by with little room to spare
+    | { type: 'laneChange'; lane: number }
+    | { type: 'jump' }
+    | { type: 'land' }
+    | { type: 'slide' }
+    | { type: 'slideEnd' }
+    | { type: 'powerUpStart'; powerUp: PowerUpType }
+    | { type: 'powerUpEnd'; powerUp: PowerUpType }
+    | { type: 'absorb'; obstacle: SimObstacle; powerUp: PowerUpType } // a power-up took a hit and ended
+    | { type: 'speedUp'; baseSpeed: number }
+    | { type: 'combo'; multiplier: number }; // the multiplier went up, or back to 1 after a gap
@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { CHUNKS_PER_SPEED_UP, HAZARDS, MAX_BASE_SPEED, MAX_SPEED, SPAWN_DISTANCE, SPEED_RAMP_INTERVAL, SPEED_STEP, START_SPEED } from './constants';
+import { TICK_DURATION, TICK_RATE } from './loop';
+import { ChunkDefinition, ChunkItem } from './patterns';
+import { activatePowerUp } from './powerups';
+import { SimEvent, SimInput, WorldState } from './types';
+import { createWorld, step } from './world';
+
+// A library of one unmirrored chunk, so every run spawns exactly these items
+const only = (...items: ChunkItem[]): ChunkDefinition[] => [{ id: 'test', minTier: 0, weight: 1, mirror: false, items }];
+
+// Steps until `done` holds or `ticks` run out, returning every event along the way
+const run = (world: WorldState, ticks: number, inputs: (tick: number) => SimInput[] = () => [], done = () => false) => {
+    const events: SimEvent[] = [];
+    for (let i = 0; i < ticks && !done(); i++) events.push(...step(world, TICK_DURATION, inputs(i)));
+    return events;
+};
+
+test('running into a log ends the run', () => {
+    const world = createWorld({ seed: 1, chunks: only({ type: 'log', lane: 1, offset: 0 }) });
+    const events = run(world, 1200, undefined, () => world.status === 'gameover');
+    assert.equal(world.status, 'gameover');
+    assert.equal(world.stats.causeOfDeath, 'log');
+    assert.ok(events.some((event) => event.type === 'crash'));
+});
+
+test('changing lanes gets past a log', () => {
+    const world = createWorld({ seed: 1, chunks: only({ type: 'log', lane: 1, offset: 0 }) });
+    const events = run(world, 600, (tick) => (tick === 0 ? ['left'] : []));
+    assert.equal(world.status, 'playing');
+    assert.equal(world.player.lane, 0);
+    assert.ok(events.some((event) => event.type === 'pass' && event.clearance === 'dodge'));
+});
+
+test('coins in the hamster\'s lane are collected and scored', () => {
+    const world = createWorld({ seed: 1, chunks: only({ type: 'coin', lane: 1, offset: 0 }) });
+    const events = run(world, 600);
+    assert.ok(world.stats.coins > 0);
+    assert.ok(world.breakdown.coins > 0);
+    assert.ok(events.some((event) => event.type === 'collect' && event.obstacle.type === 'coin'));
+});
+
+test('the track scrolls at the start speed and distance scores over time', () => {
+    const world = createWorld({ seed: 1, chunks: only({ type: 'coin', lane: 0, offset: 0 }) });
+    run(world, 60);
+    assert.equal(world.speed, START_SPEED);
+    assert.ok(Math.abs(world.distance - START_SPEED * 60) < 1e-6);
+    assert.ok(world.breakdown.distance > 0);
+});
+
+test('the base speed steps up every ramp interval', () => {
+    // One long coin trail, so no chunk-count speed-up lands inside the interval
+    const world = createWorld({ seed: 1, chunks: only({ type: 'coin', lane: 0, offset: 0 }, { type: 'coin', lane: 0, offset: 80 }) });
+    const ticks = SPEED_RAMP_INTERVAL * TICK_RATE;
+    run(world, ticks - 1);
+    assert.equal(world.baseSpeed, START_SPEED);
+    const events = run(world, 2);
+    assert.ok(Math.abs(world.baseSpeed - (START_SPEED + SPEED_STEP)) < 1e-9);
+    assert.equal(world.speed, world.baseSpeed);
+    assert.equal(events.filter((event) => event.type === 'speedUp').length, 1);
+});
+
+test('every few chunks the base speed steps up too', () => {
+    const world = createWorld({ seed: 1, chunks: only({ type: 'coin', lane: 0, offset: 0 }) });
+    let events: SimEvent[] = [];
+    while (world.chunkCount < CHUNKS_PER_SPEED_UP) events = step(world, TICK_DURATION);
+    // The speed-up lands in the same step as the chunk that completes the set
+    assert.ok(events.some((event) => event.type === 'spawn'));
+    assert.ok(events.some((event) => event.type === 'speedUp'));
+});
+
+test('speed tops out at the base and boosted maximums', () => {
+    const world = createWorld({ seed: 1, chunks: only({ type: 'coin', lane: 0, offset: 0 }) });
+    world.baseSpeed = world.speed = MAX_BASE_SPEED - SPEED_STEP / 2;
+    run(world, SPEED_RAMP_INTERVAL * TICK_RATE + 1);
+    assert.equal(world.baseSpeed, MAX_BASE_SPEED);
+    activatePowerUp(world, 'chilly', []);
+    assert.equal(world.speed, MAX_SPEED);
+});
+
+test('an impassable chunk loses its nearest hazards first', () => {
+    // A log in the middle lane, then a full wall of logs behind it
+    const world = createWorld({
+        seed: 1,
+        chunks: only(
+            { type: 'log', lane: 1, offset: 0 },
+            { type: 'log', lane: 0, offset: 10 },
+            { type: 'log', lane: 1, offset: 10 },
+            { type: 'log', lane: 2, offset: 10 },
+        ),
+    });
+    step(world, TICK_DURATION);
+    const hazards = world.obstacles.filter((o) => HAZARDS[o.type]);
+    assert.equal(hazards.length, 2);
+    hazards.forEach((o) => assert.ok(o.z < SPAWN_DISTANCE - 9));
+});
+
+test('every hazard passed from the next lane over is a near miss', () => {
+    const world = createWorld({
+        seed: 1,
+        chunks: only(
+            { type: 'rock', lane: 0, offset: 0 },
+            { type: 'branch', lane: 2, offset: 8 },
+            { type: 'log', lane: 0, offset: 16 },
+        ),
+    });
+    const events = run(world, 1200, undefined, () => world.stats.nearMisses === 3);
+    assert.equal(world.status, 'playing');
+    assert.deepEqual(events.flatMap((event) => (event.type === 'nearMiss' ? [event.obstacle.type] : [])), ['rock', 'branch', 'log']);
+});
+
+test('a hazard two lanes away is not a near miss', () => {
+    const world = createWorld({ seed: 1, chunks: only({ type: 'branch', lane: 2, offset: 0 }) });
+    const events = run(world, 600, (tick) => (tick === 0 ? ['left'] : []));
+    assert.ok(events.some((event) => event.type === 'pass'));
+    assert.ok(!events.some((event) => event.type === 'nearMiss'));
+});
+
+test('every power-up picked up is counted by type', () => {
+    const world = createWorld({
+        seed: 1,
+        chunks: only(
+            { type: 'shield', lane: 1, offset: 0 },
+            { type: 'doubler', lane: 1, offset: 6 },
+            { type: 'hourglass', lane: 1, offset: 12 },
+        ),
+    });
+    run(world, 1800, undefined, () => world.stats.powerUps.hourglass > 0);
+    assert.deepEqual(world.stats.powerUps, { chilly: 0, magnet: 0, shield: 1, doubler: 1, hourglass: 1 });
+});
+
+// Plays a seed with a fixed input script and records what it spawned and how it ended
+const playSeed = (seed: number) => {
+    const world = createWorld({ seed });
+    const inputs = (tick: number): SimInput[] => (tick % 90 === 45 ? ['jump'] : tick % 120 === 0 ? [tick % 240 ? 'left' : 'right'] : []);
+    const events = run(world, 60 * TICK_RATE, inputs, () => world.status === 'gameover');
+    const layout = events.flatMap((event) => (event.type === 'spawn' ? [[event.obstacle.type, event.obstacle.lane, event.obstacle.z]] : []));
+    return { layout, score: world.score, tick: world.tick, status: world.status };
+};
+
+test('the same seed plays out identically', () => {
+    const first = playSeed(42);
+    assert.equal(first.status, 'gameover'); // so the crash tick is compared too
+    assert.ok(first.layout.length > 10);
+    assert.deepEqual(playSeed(42), first);
+});
+
+test('a different seed lays out a different track', () => {
+    assert.notDeepEqual(playSeed(43).layout, playSeed(42).layout);
+});
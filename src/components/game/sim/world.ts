@@ -0,0 +1,333 @@
+import {
+    CHUNKS_PER_SPEED_UP,
+    CHUNK_GAP_MAX,
+    CHUNK_GAP_MIN,
+    CHUNK_GAP_TIER_FACTOR,
+    DESPAWN_DISTANCE,
+    FAIRNESS_REROLLS,
+    HAZARDS,
+    JUMP_DURATION,
+    JUMP_HEIGHT,
+    LANES,
+    SLIDE_DURATION,
+    LANE_LERP,
+    MAX_BASE_SPEED,
+    NEAR_MISS_GAP,
+    NEAR_MISS_POINTS,
+    POINTS,
+    SPAWN_DISTANCE,
+    SPEED_RAMP_INTERVAL,
+    SPEED_STEP,
+    START_SPEED,
+} from './constants';
+import { CHUNKS } from './chunks';
+import { Aabb, obstacleBox, overlaps, overlapsX, overlapsZ, playerBox } from './collision';
+import { capabilitiesFor, Hazard, hazardOf, hazardsFor, isPassable, playerStartFor } from './fairness';
+import { ChunkDefinition, chunkLength, difficultyTier, pickChunk, placeChunk } from './patterns';
+import { absorberOf, activatePowerUp, createPowerUps, endPowerUp, hasMagnet, isPowerUp, rollPowerUp, updatePowerUps, updateSpeed } from './powerups';
+import { createRng, randomSeed } from './random';
+import { addPoints, createBreakdown, createCombo, extendCombo, nearMissGap, updateScoring } from './scoring';
+import { createRunStats, recordStats } from './stats';
+import { Clearance, ObstacleType, RunModifiers, SimEvent, SimInput, SimObstacle, SimPlayer, WorldState } from './types';
+
+export interface WorldOptions {
+    seed?: number;
+    modifiers?: RunModifiers;
+    chunks?: ChunkDefinition[];
+}
+
+export function createWorld({ seed = randomSeed(), modifiers = {}, chunks = CHUNKS }: WorldOptions = {}): WorldState {
+    const startSpeed = modifiers.startSpeed ?? START_SPEED;
+    return {
+        seed,
+        modifiers,
+        status: 'playing',
+        tick: 0,
+        time: 0,
+        score: 0,
+        breakdown: createBreakdown(),
+        combo: createCombo(),
+        speed: startSpeed,
+        baseSpeed: startSpeed,
+        powerUps: createPowerUps(),
+        player: { lane: 1, x: LANES[1], y: 0, prevX: LANES[1], prevY: 0, jumping: false, jumpElapsed: 0, sliding: false, slideElapsed: 0 },
+        obstacles: [],
+        distance: 0,
+        chunks,
+        nextChunkIn: 0,
+        chunkCount: 0,
+        nextRampAt: SPEED_RAMP_INTERVAL,
+        nextId: 1,
+        rng: createRng(seed),
+        inputLog: [],
+        stats: createRunStats(),
+    };
+}
+
+// An independent copy of the world that steps on exactly as the original would
+export function cloneWorld(world: WorldState): WorldState {
+    const { rng, chunks, ...state } = world;
+    return { ...structuredClone(state), chunks, rng: rng.clone() };
+}
+
+/**
+ * Advances the world by `dt` seconds, applying the given inputs first.
+ * Mutates `world` in place and returns everything that happened during the step.
+ * The game drives it with fixed ticks (see `runFixedSteps`) so results do not
+ * depend on the frame rate.
+ */
+export function step(world: WorldState, dt: number, inputs: SimInput[] = []): SimEvent[] {
+    const events: SimEvent[] = [];
+    if (world.status !== 'playing') return events;
+
+    world.tick++;
+    world.time += dt;
+
+    inputs.forEach((input) => {
+        world.inputLog.push([world.tick, input]);
+        applyInput(world, input, events);
+    });
+    updatePowerUps(world, dt, events);
+
+    if (world.time >= world.nextRampAt) {
+        world.nextRampAt += SPEED_RAMP_INTERVAL;
+        increaseSpeed(world, events);
+    }
+
+    updatePlayer(world, dt, events);
+    updateSpawner(world, dt, events);
+    updateObstacles(world, dt, events);
+    updateScoring(world, dt, events);
+    recordStats(world, dt, events);
+
+    return events;
+}
+
+function applyInput(world: WorldState, input: SimInput, events: SimEvent[]) {
+    const { player } = world;
+
+    if (input === 'left' && player.lane > 0) {
+        player.lane--;
+        events.push({ type: 'laneChange', lane: player.lane });
+    } else if (input === 'right' && player.lane < LANES.length - 1) {
+        player.lane++;
+        events.push({ type: 'laneChange', lane: player.lane });
+    } else if (input === 'jump' && !player.jumping) {
+        // Jumping cuts a slide short
+        if (player.sliding) endSlide(player, events);
+        player.jumping = true;
+        player.jumpElapsed = 0;
+        events.push({ type: 'jump' });
+    } else if (input === 'slide') {
+        // Sliding mid-air drops straight to the ground
+        if (player.jumping) {
+            player.jumping = false;
+            player.y = 0;
+            events.push({ type: 'land' });
+        }
+        // Sliding again while still low restarts the slide
+        if (!player.sliding) events.push({ type: 'slide' });
+        player.sliding = true;
+        player.slideElapsed = 0;
+    }
+}
+
+function increaseSpeed(world: WorldState, events: SimEvent[]) {
+    world.baseSpeed = Math.min(world.baseSpeed + SPEED_STEP, MAX_BASE_SPEED);
+    updateSpeed(world);
+    events.push({ type: 'speedUp', baseSpeed: world.baseSpeed });
+}
+
+function updatePlayer(world: WorldState, dt: number, events: SimEvent[]) {
+    const { player } = world;
+    player.prevX = player.x;
+    player.prevY = player.y;
+
+    // Smooth lane transition
+    player.x += (LANES[player.lane] - player.x) * LANE_LERP;
+
+    // Jump arc
+    if (player.jumping) {
+        player.jumpElapsed += dt;
+        if (player.jumpElapsed < JUMP_DURATION) {
+            const progress = player.jumpElapsed / JUMP_DURATION;
+            player.y = 4 * JUMP_HEIGHT * progress * (1 - progress);
+        } else {
+            player.y = 0;
+            player.jumping = false;
+            events.push({ type: 'land' });
+        }
+    }
+
+    if (player.sliding) {
+        player.slideElapsed += dt;
+        if (player.slideElapsed >= SLIDE_DURATION) endSlide(player, events);
+    }
+}
+
+function endSlide(player: SimPlayer, events: SimEvent[]) {
+    player.sliding = false;
+    player.slideElapsed = 0;
+    events.push({ type: 'slideEnd' });
+}
+
+interface Placement {
+    type: ObstacleType;
+    lane: number;
+    z: number;
+}
+
+// Picks and places a chunk, rolling its power-ups and applying run modifiers to the item types
+function rollChunk(world: WorldState, tier: number) {
+    const { rng, modifiers } = world;
+    const chunk = pickChunk(world.chunks, tier, rng);
+    const placements: Placement[] = placeChunk(chunk, rng).map((item) => {
+        const type = item.type === 'powerUp' ? rollPowerUp(rng) : item.type;
+        return {
+            type: (type === 'magnet' && modifiers.noMagnets) || item.lane === modifiers.coinLane ? 'coin' : type,
+            lane: item.lane,
+            z: SPAWN_DISTANCE - item.offset,
+        };
+    });
+    return { chunk, placements };
+}
+
+const hazardsIn = (placements: Placement[]): Hazard[] =>
+    placements.flatMap(({ type, lane, z }) => hazardOf(type, lane, z) ?? []);
+
+/**
+ * Rolls chunks until the track ahead (existing hazards plus the new chunk) has a
+ * survivable path. If every reroll fails, the new chunk's hazards are dropped
+ * nearest-first until it does.
+ */
+function rollFairChunk(world: WorldState, tier: number) {
+    const existing = hazardsFor(world);
+    const start = playerStartFor(world);
+    const caps = capabilitiesFor(world);
+    const passable = (placements: Placement[]) =>
+        isPassable([...existing, ...hazardsIn(placements)], start, caps);
+
+    let roll = rollChunk(world, tier);
+    for (let attempt = 0; attempt < FAIRNESS_REROLLS && !passable(roll.placements); attempt++) {
+        roll = rollChunk(world, tier);
+    }
+
+    const placements = [...roll.placements];
+    while (!passable(placements)) {
+        const hazards = placements.filter((p) => HAZARDS[p.type]);
+        if (hazards.length === 0) break;
+        const nearest = hazards.reduce((a, b) => (b.z > a.z ? b : a));
+        placements.splice(placements.indexOf(nearest), 1);
+    }
+
+    return { chunk: roll.chunk, placements };
+}
+
+// Stitches the next authored chunk on once the previous one plus a gap has scrolled in
+function updateSpawner(world: WorldState, dt: number, events: SimEvent[]) {
+    const travelled = world.speed * 60 * dt;
+    world.distance += travelled;
+    world.nextChunkIn -= travelled;
+    if (world.nextChunkIn > 0) return;
+
+    const { rng } = world;
+    const tier = difficultyTier(world.baseSpeed);
+    const { chunk, placements } = rollFairChunk(world, tier);
+
+    placements.forEach(({ type, lane, z }) => {
+        const obstacle: SimObstacle = { id: world.nextId++, type, lane, z, prevZ: z, variant: rng.next(), collected: false, closest: null };
+        world.obstacles.push(obstacle);
+        events.push({ type: 'spawn', obstacle });
+    });
+
+    world.chunkCount++;
+    if (world.chunkCount % CHUNKS_PER_SPEED_UP === 0) {
+        increaseSpeed(world, events);
+    }
+
+    // Gap before the next chunk, tighter at higher tiers
+    const gap = rng.range(CHUNK_GAP_MIN, CHUNK_GAP_MAX) * (1 - tier * CHUNK_GAP_TIER_FACTOR);
+    world.nextChunkIn += chunkLength(chunk) + gap;
+}
+
+// How the hamster got past a hazard: over or under it in its lane, or around it
+const clearanceOf = (hitbox: Aabb, box: Aabb): Clearance => {
+    if (!overlapsX(hitbox, box)) return 'dodge';
+    return hitbox.minY >= box.maxY ? 'jump' : 'slide';
+};
+
+/**
+ * Follows a hazard's closest approach while it is level with the hamster and scores a
+ * near miss once it has gone by. Jumps and dodges come closest as the hazard draws level
+ * or leaves, not at its midpoint, so the whole pass is measured.
+ */
+function trackNearMiss(world: WorldState, obstacle: SimObstacle, hitbox: Aabb, box: Aabb, events: SimEvent[]) {
+    if (overlapsZ(hitbox, box)) {
+        const gap = nearMissGap(hitbox, box);
+        if (gap !== null) obstacle.closest = Math.min(obstacle.closest ?? gap, gap);
+        return;
+    }
+    if (obstacle.closest === null) return;
+
+    const gap = obstacle.closest;
+    obstacle.closest = null;
+    if (gap >= NEAR_MISS_GAP) return;
+    extendCombo(world, events);
+    const points = addPoints(world, 'nearMisses', NEAR_MISS_POINTS);
+    events.push({ type: 'nearMiss', obstacle, gap, points });
+}
+
+// Moves obstacles, then runs the collision pass against the hamster's hitbox
+function updateObstacles(world: WorldState, dt: number, events: SimEvent[]) {
+    const hitbox = playerBox(world.player);
+    const remaining: SimObstacle[] = [];
+
+    for (const obstacle of world.obstacles) {
+        // Move toward player
+        obstacle.prevZ = obstacle.z;
+        obstacle.z += world.speed * 60 * dt;
+
+        if (obstacle.z > DESPAWN_DISTANCE) {
+            events.push({ type: 'despawn', obstacle });
+            continue;
+        }
+        remaining.push(obstacle);
+
+        if (obstacle.collected || world.status !== 'playing') continue;
+
+        const box = obstacleBox(obstacle);
+        // The magnet pulls in coins from any lane and height once they draw level
+        const magnetized = obstacle.type === 'coin' && hasMagnet(world) && overlapsZ(hitbox, box);
+        if (!magnetized && !overlaps(hitbox, box)) {
+            // A hazard drawing level with the hamster without a hit has been cleared
+            if (HAZARDS[obstacle.type] && obstacle.prevZ < 0 && obstacle.z >= 0) {
+                events.push({ type: 'pass', obstacle, clearance: clearanceOf(hitbox, box) });
+            }
+            if (HAZARDS[obstacle.type]) trackNearMiss(world, obstacle, hitbox, box, events);
+            continue;
+        }
+
+        if (HAZARDS[obstacle.type]) {
+            obstacle.collected = true;
+            const absorber = absorberOf(world, obstacle.type);
+            if (absorber) {
+                // The hazard shatters against the power-up and is gone
+                remaining.pop();
+                events.push({ type: 'absorb', obstacle, powerUp: absorber });
+                endPowerUp(world, absorber, events);
+                continue;
+            }
+            world.status = 'gameover';
+            events.push({ type: 'crash', obstacle });
+            continue;
+        }
+
+        obstacle.collected = true;
+        extendCombo(world, events);
+        const points = addPoints(world, obstacle.type === 'coin' ? 'coins' : 'powerUps', POINTS[obstacle.type]);
+        events.push({ type: 'collect', obstacle, points });
+        if (isPowerUp(obstacle.type)) activatePowerUp(world, obstacle.type, events);
+    }
+
+    world.obstacles = remaining;
+}
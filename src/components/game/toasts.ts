@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import type { StringKey } from './i18n';
+
+// Game-styled pop-ups for unlocks and other news that should not interrupt play
+
+export interface Toast {
+    id: number;
+    icon: string;
+    title: StringKey; // translated when shown, so a language change applies to queued toasts
+    text: StringKey;
+    count?: number; // fills '{n}' in the text
+}
+
+// How long each toast stays up, in seconds
+export const TOAST_DURATION = 3.5;
+// Toasts beyond this wait their turn
+export const MAX_VISIBLE_TOASTS = 3;
+
+interface ToastState {
+    toasts: Toast[];
+    push: (toast: Omit<Toast, 'id'>) => void;
+    dismiss: (id: number) => void;
+}
+
+let nextId = 1;
+
+export const useToastStore = create<ToastState>((set, get) => ({
+    toasts: [],
+    push: (toast) => set({ toasts: [...get().toasts, { ...toast, id: nextId++ }] }),
+    dismiss: (id) => set({ toasts: get().toasts.filter((toast) => toast.id !== id) }),
+}));
+
+export const pushToast = (toast: Omit<Toast, 'id'>) => useToastStore.getState().push(toast);